@@ -0,0 +1,517 @@
+#!/usr/bin/env node
+/**
+ * Command line client for sessions started with `pi --session-control`.
+ *
+ * Speaks the newline-delimited JSON protocol of pi-extensions/control.ts over
+ * the Unix sockets in ~/.pi/session-control and resolves session names through
+ * the same alias symlinks.  Every command prints JSON to stdout (`watch` prints
+ * one event per line); failures print `{ "error": ... }` to stderr and exit
+ * non-zero (2 for usage errors).
+ */
+
+import { promises as fs } from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const CONTROL_DIR = path.join(os.homedir(), ".pi", "session-control");
+const SOCKET_SUFFIX = ".sock";
+const ALIAS_SUFFIX = ".alias";
+
+const SUBSCRIBABLE_EVENTS = [
+	"turn_end",
+	"agent_start",
+	"agent_end",
+	"tool_call",
+	"tool_result",
+	"model_select",
+	"session_shutdown",
+];
+
+const HELP = `Usage: pi-control <command> [args] [options]
+
+Drive pi sessions started with --session-control.  <session> is a session id
+or a session name (names may contain "/" groups, e.g. workers/1).
+
+Commands:
+  list                         List live sessions
+  send <session> <message>     Send a message (reads stdin when message is "-")
+  get-message <session>        Print the last assistant message
+  summary <session>            Summarize activity since the last prompt
+  clear <session>              Rewind the session to its first entry
+  abort <session>              Abort the current turn
+  watch <session>              Stream events as JSON lines until the session exits
+
+Options:
+  --mode <steer|follow_up>     Delivery mode for send (default: steer)
+  --wait                       send: wait for turn_end and include its message
+  --summarize                  clear: summarize before clearing
+  --event, -e <event>          watch: event to stream (repeatable, default: all)
+  --tool <name>                watch: only tool_call/tool_result for this tool (repeatable)
+  --errors-only                watch: only failed tool_result events
+  --once                       watch: stop after the first event
+  --timeout <ms>               Response timeout (default: 5000, 60000 for summary)
+  -h, --help                   Show this help
+
+Events: ${SUBSCRIBABLE_EVENTS.join(", ")}
+
+Examples:
+  pi-control list | jq -r '.[].name'
+  pi-control send workers/1 "Run the tests" --wait | jq -r .message.content
+  pi-control watch reviewer -e tool_result --errors-only
+`;
+
+class UsageError extends Error {}
+
+function parseArgs(args) {
+	const options = {
+		command: null,
+		positional: [],
+		mode: "steer",
+		wait: false,
+		summarize: false,
+		events: [],
+		tools: [],
+		errorsOnly: false,
+		once: false,
+		timeout: null,
+		help: false,
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const takeValue = () => {
+			const value = args[++i];
+			if (value === undefined || value.startsWith("--")) {
+				throw new UsageError(`Missing value for ${arg}`);
+			}
+			return value;
+		};
+
+		switch (arg) {
+			case "--help":
+			case "-h":
+				options.help = true;
+				break;
+			case "--mode":
+				options.mode = takeValue();
+				break;
+			case "--wait":
+				options.wait = true;
+				break;
+			case "--summarize":
+				options.summarize = true;
+				break;
+			case "--event":
+			case "-e":
+				options.events.push(takeValue());
+				break;
+			case "--tool":
+				options.tools.push(takeValue());
+				break;
+			case "--errors-only":
+				options.errorsOnly = true;
+				break;
+			case "--once":
+				options.once = true;
+				break;
+			case "--timeout": {
+				const value = takeValue();
+				if (!/^\d+$/.test(value) || Number(value) <= 0) {
+					throw new UsageError(`Invalid --timeout: ${value} (expected a positive number of milliseconds)`);
+				}
+				options.timeout = Number(value);
+				break;
+			}
+			default:
+				if (arg.startsWith("--")) {
+					throw new UsageError(`Unknown option: ${arg}`);
+				}
+				if (options.command === null) {
+					options.command = arg;
+				} else {
+					options.positional.push(arg);
+				}
+		}
+	}
+
+	return options;
+}
+
+// ============================================================================
+// Session Resolution (mirrors control.ts)
+// ============================================================================
+
+function getSocketPath(sessionId) {
+	return path.join(CONTROL_DIR, `${sessionId}${SOCKET_SUFFIX}`);
+}
+
+function isSafeSessionId(sessionId) {
+	return !sessionId.includes("/") && !sessionId.includes("\\") && !sessionId.includes("..") && sessionId.length > 0;
+}
+
+function isSafeAlias(alias) {
+	if (alias.includes("\\") || alias.includes("..") || alias.length === 0) return false;
+	return alias.split("/").every((segment) => segment.length > 0 && segment !== ".");
+}
+
+async function resolveSessionIdFromAlias(alias) {
+	if (!alias || !isSafeAlias(alias)) return null;
+	const aliasPath = path.join(CONTROL_DIR, `${alias}${ALIAS_SUFFIX}`);
+	try {
+		const target = await fs.readlink(aliasPath);
+		const base = path.basename(path.resolve(path.dirname(aliasPath), target));
+		if (!base.endsWith(SOCKET_SUFFIX)) return null;
+		const sessionId = base.slice(0, -SOCKET_SUFFIX.length);
+		return isSafeSessionId(sessionId) ? sessionId : null;
+	} catch {
+		return null;
+	}
+}
+
+async function pathExists(filePath) {
+	try {
+		await fs.stat(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Accepts a session name or id, trying names first like the send_to_session tool. */
+async function resolveSession(target) {
+	if (!target) throw new UsageError("Missing <session>");
+	const aliased = await resolveSessionIdFromAlias(target);
+	if (aliased) return { sessionId: aliased, socketPath: getSocketPath(aliased) };
+	if (isSafeSessionId(target) && (await pathExists(getSocketPath(target)))) {
+		return { sessionId: target, socketPath: getSocketPath(target) };
+	}
+	throw new Error(`Unknown session: ${target}`);
+}
+
+async function listAliasLinks(dir = CONTROL_DIR) {
+	const links = [];
+	let entries;
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true });
+	} catch {
+		return links;
+	}
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			links.push(...(await listAliasLinks(entryPath)));
+			continue;
+		}
+		if (!entry.isSymbolicLink() || !entry.name.endsWith(ALIAS_SUFFIX)) continue;
+		try {
+			const target = await fs.readlink(entryPath);
+			links.push({ aliasPath: entryPath, target: path.resolve(dir, target) });
+		} catch {
+			continue;
+		}
+	}
+	return links;
+}
+
+async function isSocketAlive(socketPath) {
+	return await new Promise((resolve) => {
+		const socket = net.createConnection(socketPath);
+		const timeout = setTimeout(() => {
+			socket.destroy();
+			resolve(false);
+		}, 300);
+
+		const cleanup = (alive) => {
+			clearTimeout(timeout);
+			socket.removeAllListeners();
+			resolve(alive);
+		};
+
+		socket.once("connect", () => {
+			socket.end();
+			cleanup(true);
+		});
+		socket.once("error", () => {
+			cleanup(false);
+		});
+	});
+}
+
+async function listSessions() {
+	let entries;
+	try {
+		entries = await fs.readdir(CONTROL_DIR, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+
+	const aliasMap = new Map();
+	for (const link of await listAliasLinks()) {
+		const name = path.relative(CONTROL_DIR, link.aliasPath).slice(0, -ALIAS_SUFFIX.length).split(path.sep).join("/");
+		aliasMap.set(link.target, [...(aliasMap.get(link.target) ?? []), name]);
+	}
+
+	const sessions = [];
+	for (const entry of entries) {
+		if (!entry.name.endsWith(SOCKET_SUFFIX)) continue;
+		const sessionId = entry.name.slice(0, -SOCKET_SUFFIX.length);
+		if (!isSafeSessionId(sessionId)) continue;
+		const socketPath = path.join(CONTROL_DIR, entry.name);
+		if (!(await isSocketAlive(socketPath))) continue;
+		const aliases = aliasMap.get(socketPath) ?? [];
+		sessions.push({ sessionId, name: aliases[0] ?? null, aliases, socketPath });
+	}
+
+	sessions.sort((a, b) => (a.name ?? a.sessionId).localeCompare(b.name ?? b.sessionId));
+	return sessions;
+}
+
+// ============================================================================
+// RPC Client
+// ============================================================================
+
+/**
+ * Sends `command` and resolves with its response.  With `waitForTurnEnd` the
+ * promise resolves with the following turn_end event instead.
+ */
+function sendRpcCommand(socketPath, command, { timeout = 5000, waitForTurnEnd = false } = {}) {
+	return new Promise((resolve, reject) => {
+		const socket = net.createConnection(socketPath);
+		socket.setEncoding("utf8");
+
+		const timeoutHandle = setTimeout(() => {
+			socket.destroy(new Error(`Timed out after ${timeout}ms`));
+		}, timeout);
+
+		let buffer = "";
+		let response = null;
+
+		const finish = (result) => {
+			clearTimeout(timeoutHandle);
+			socket.removeAllListeners();
+			socket.end();
+			resolve(result);
+		};
+
+		socket.on("connect", () => {
+			socket.write(`${JSON.stringify(command)}\n`);
+			if (waitForTurnEnd) {
+				socket.write(`${JSON.stringify({ type: "subscribe", event: "turn_end" })}\n`);
+			}
+		});
+
+		socket.on("data", (chunk) => {
+			buffer += chunk;
+			let newlineIndex = buffer.indexOf("\n");
+			while (newlineIndex !== -1) {
+				const line = buffer.slice(0, newlineIndex).trim();
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf("\n");
+				if (!line) continue;
+
+				let msg;
+				try {
+					msg = JSON.parse(line);
+				} catch {
+					continue;
+				}
+
+				if (msg.type === "response" && msg.command === command.type) {
+					response = msg;
+					if (!waitForTurnEnd || !msg.success) {
+						finish({ response });
+						return;
+					}
+				} else if (msg.type === "event" && msg.event === "turn_end" && response) {
+					finish({ response, event: msg.data ?? {} });
+					return;
+				}
+			}
+		});
+
+		socket.on("error", (error) => {
+			clearTimeout(timeoutHandle);
+			socket.removeAllListeners();
+			reject(error);
+		});
+
+		socket.on("close", () => {
+			clearTimeout(timeoutHandle);
+			reject(new Error("Connection closed before a response arrived"));
+		});
+	});
+}
+
+/** Subscribes to `events` on one connection and prints each event as a JSON line. */
+function watchSession(socketPath, { events, filter, once }) {
+	return new Promise((resolve, reject) => {
+		const socket = net.createConnection(socketPath);
+		socket.setEncoding("utf8");
+		let buffer = "";
+
+		socket.on("connect", () => {
+			for (const event of events) {
+				const command = { type: "subscribe", event, id: event, once: false };
+				if (filter) command.filter = filter;
+				socket.write(`${JSON.stringify(command)}\n`);
+			}
+		});
+
+		socket.on("data", (chunk) => {
+			buffer += chunk;
+			let newlineIndex = buffer.indexOf("\n");
+			while (newlineIndex !== -1) {
+				const line = buffer.slice(0, newlineIndex).trim();
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf("\n");
+				if (!line) continue;
+
+				let msg;
+				try {
+					msg = JSON.parse(line);
+				} catch {
+					continue;
+				}
+
+				if (msg.type === "response" && !msg.success) {
+					socket.destroy();
+					reject(new Error(msg.error ?? `${msg.command} failed`));
+					return;
+				}
+				if (msg.type !== "event") continue;
+
+				process.stdout.write(`${JSON.stringify({ event: msg.event, data: msg.data ?? null, time: new Date().toISOString() })}\n`);
+				if (once || msg.event === "session_shutdown") {
+					socket.end();
+					return;
+				}
+			}
+		});
+
+		socket.on("error", reject);
+		socket.on("close", () => resolve());
+	});
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function readStdin() {
+	const chunks = [];
+	for await (const chunk of process.stdin) chunks.push(chunk);
+	return Buffer.concat(chunks).toString("utf8");
+}
+
+/** Unwraps a response, turning `success: false` into an error. */
+function responseData(result) {
+	if (!result.response.success) {
+		throw new Error(result.response.error ?? `${result.response.command} failed`);
+	}
+	return result.response.data ?? {};
+}
+
+async function runCommand(options) {
+	const [target, ...rest] = options.positional;
+
+	switch (options.command) {
+		case "list":
+			return await listSessions();
+
+		case "send": {
+			const session = await resolveSession(target);
+			let message = rest.join(" ");
+			if (message === "-") message = await readStdin();
+			if (!message.trim()) throw new UsageError("Missing <message>");
+			if (options.mode !== "steer" && options.mode !== "follow_up") {
+				throw new UsageError(`Invalid --mode: ${options.mode} (expected steer or follow_up)`);
+			}
+			const result = await sendRpcCommand(
+				session.socketPath,
+				{ type: "send", message, mode: options.mode },
+				{ timeout: options.timeout ?? (options.wait ? 300000 : 5000), waitForTurnEnd: options.wait },
+			);
+			const data = responseData(result);
+			if (!options.wait) return { sessionId: session.sessionId, ...data };
+			return { sessionId: session.sessionId, ...data, message: result.event?.message ?? null };
+		}
+
+		case "get-message": {
+			const session = await resolveSession(target);
+			const result = await sendRpcCommand(session.socketPath, { type: "get_message" }, { timeout: options.timeout ?? 5000 });
+			return { sessionId: session.sessionId, ...responseData(result) };
+		}
+
+		case "summary": {
+			const session = await resolveSession(target);
+			const result = await sendRpcCommand(session.socketPath, { type: "get_summary" }, { timeout: options.timeout ?? 60000 });
+			return { sessionId: session.sessionId, ...responseData(result) };
+		}
+
+		case "clear": {
+			const session = await resolveSession(target);
+			const result = await sendRpcCommand(
+				session.socketPath,
+				{ type: "clear", summarize: options.summarize },
+				{ timeout: options.timeout ?? (options.summarize ? 60000 : 10000) },
+			);
+			return { sessionId: session.sessionId, ...responseData(result) };
+		}
+
+		case "abort": {
+			const session = await resolveSession(target);
+			const result = await sendRpcCommand(session.socketPath, { type: "abort" }, { timeout: options.timeout ?? 5000 });
+			return { sessionId: session.sessionId, aborted: true, ...responseData(result) };
+		}
+
+		case "watch": {
+			const session = await resolveSession(target);
+			const events = options.events.length > 0 ? options.events : SUBSCRIBABLE_EVENTS;
+			const unknown = events.filter((event) => !SUBSCRIBABLE_EVENTS.includes(event));
+			if (unknown.length > 0) {
+				throw new UsageError(`Unknown event: ${unknown.join(", ")} (supported: ${SUBSCRIBABLE_EVENTS.join(", ")})`);
+			}
+			const filter = {};
+			if (options.tools.length > 0) filter.toolNames = options.tools;
+			if (options.errorsOnly) filter.errorsOnly = true;
+			await watchSession(session.socketPath, {
+				events,
+				filter: Object.keys(filter).length > 0 ? filter : undefined,
+				once: options.once,
+			});
+			return undefined;
+		}
+
+		case null:
+			throw new UsageError("Missing command");
+
+		default:
+			throw new UsageError(`Unknown command: ${options.command}`);
+	}
+}
+
+async function main() {
+	let options;
+	try {
+		options = parseArgs(process.argv.slice(2));
+		if (options.help) {
+			console.log(HELP);
+			process.exit(0);
+		}
+		const output = await runCommand(options);
+		if (output !== undefined) {
+			console.log(JSON.stringify(output, null, 2));
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(JSON.stringify({ error: message }));
+		if (error instanceof UsageError) {
+			console.error("Run with --help for usage information");
+			process.exit(2);
+		}
+		process.exit(1);
+	}
+}
+
+main();
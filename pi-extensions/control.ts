@@ -10,26 +10,48 @@
  * - Retrieve the last assistant message from a session
  * - Get AI-generated summaries of session activity
  * - Clear/rewind sessions to their initial state
- * - Subscribe to turn_end events for async coordination
+ * - Subscribe to turn_end, agent, tool and model events for async coordination
+ * - Broadcast a message to every live session whose name matches a glob
+ * - Request/reply threads: `expect_reply` sends carry a thread id that the target
+ *   answers with the `reply_to_session` tool; a thread is forgotten once it is
+ *   answered or its reply timeout passes, and replies from other sessions are refused
  *
+ * Session names may contain `/` to form groups (e.g. `workers/1`); their alias
+ * symlinks then live in subdirectories, so `workers/*` addresses the group.
  * Once loaded the extension registers a `send_to_session` tool that allows the AI to
  * communicate with other pi sessions programmatically.
  *
  * Usage:
  *   pi --session-control
+ *   pi --session-control --session-control-listen ws:7777
  *
  * Environment:
  *   Sets PI_SESSION_ID when enabled, allowing child processes to discover
  *   the current session.
  *
+ * Remote Transports:
+ *   `--session-control-listen tcp[:port]` or `ws[:port]` additionally serves the
+ *   same protocol on 127.0.0.1 (no port picks a free one): raw newline-delimited
+ *   TCP, or one or more lines per WebSocket text frame.  A random token and the
+ *   bound port are written to `~/.pi/session-control/<session-id>.token` (mode
+ *   0600); clients must send { type: "auth", token } first, or connect to the
+ *   WebSocket with `?token=...`.
+ *
  * RPC Protocol:
  *   Commands are newline-delimited JSON objects with a `type` field:
- *   - { type: "send", message: "...", mode?: "steer"|"follow_up" }
+ *   - { type: "auth", token: "..." }
+ *   - { type: "send", message: "...", mode?: "steer"|"follow_up", thread?: { id, senderSessionId, ... }, replyTo?: "..." }
  *   - { type: "get_message" }
  *   - { type: "get_summary" }
  *   - { type: "clear", summarize?: boolean }
  *   - { type: "abort" }
- *   - { type: "subscribe", event: "turn_end" }
+ *   - { type: "subscribe", event: "turn_end", once?: boolean }
+ *   - { type: "subscribe", event: "agent_start"|"agent_end"|"tool_call"|"tool_result"|"model_select"|"session_shutdown",
+ *       once?: boolean, filter?: { toolNames?: string[], errorsOnly?: boolean } }
+ *
+ *   turn_end subscriptions fire once by default; the others stream until the
+ *   connection closes.  `filter` narrows tool_call/tool_result events to the
+ *   named tools and, for tool_result, to failed calls.
  *
  *   Responses are JSON objects with { type: "response", command, success, data?, error? }
  *   Events are JSON objects with { type: "event", event, data?, subscriptionId? }
@@ -41,14 +63,20 @@ import { complete, type Model, type Api, type UserMessage, type TextContent } fr
 import { StringEnum } from "@mariozechner/pi-ai";
 import { Box, Container, Markdown, Spacer, Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { promises as fs } from "node:fs";
+import * as crypto from "node:crypto";
+import { type Dirent, promises as fs } from "node:fs";
+import * as http from "node:http";
 import * as net from "node:net";
 import * as os from "node:os";
 import * as path from "node:path";
+import type { Duplex } from "node:stream";
 
 const CONTROL_FLAG = "session-control";
 const CONTROL_DIR = path.join(os.homedir(), ".pi", "session-control");
 const SOCKET_SUFFIX = ".sock";
+const LISTEN_FLAG = "session-control-listen";
+const LISTEN_HOST = "127.0.0.1";
+const TOKEN_SUFFIX = ".token";
 const SESSION_MESSAGE_TYPE = "session-message";
 const SENDER_INFO_PATTERN = /<sender_info>[\s\S]*?<\/sender_info>/g;
 
@@ -73,10 +101,21 @@ interface RpcEvent {
 }
 
 // Unified command structure
+/** Attached to a send whose sender expects a reply_to_session answer. */
+interface RpcThreadInfo {
+	id: string;
+	senderSessionId: string;
+	senderSessionName?: string;
+	timeoutMs?: number;
+}
+
 interface RpcSendCommand {
 	type: "send";
 	message: string;
 	mode?: "steer" | "follow_up";
+	thread?: RpcThreadInfo;
+	/** Thread id this message answers. */
+	replyTo?: string;
 	id?: string;
 }
 
@@ -101,9 +140,36 @@ interface RpcAbortCommand {
 	id?: string;
 }
 
+interface RpcAuthCommand {
+	type: "auth";
+	token: string;
+	id?: string;
+}
+
+const SUBSCRIBABLE_EVENTS = [
+	"turn_end",
+	"agent_start",
+	"agent_end",
+	"tool_call",
+	"tool_result",
+	"model_select",
+	"session_shutdown",
+] as const;
+
+type SubscribableEvent = (typeof SUBSCRIBABLE_EVENTS)[number];
+
+interface RpcEventFilter {
+	/** Only tool_call/tool_result events for these tools. */
+	toolNames?: string[];
+	/** Only tool_result events with isError set. */
+	errorsOnly?: boolean;
+}
+
 interface RpcSubscribeCommand {
 	type: "subscribe";
-	event: "turn_end";
+	event: SubscribableEvent;
+	once?: boolean;
+	filter?: RpcEventFilter;
 	id?: string;
 }
 
@@ -113,15 +179,26 @@ type RpcCommand =
 	| RpcGetSummaryCommand
 	| RpcClearCommand
 	| RpcAbortCommand
-	| RpcSubscribeCommand;
+	| RpcSubscribeCommand
+	| RpcAuthCommand;
 
 // ============================================================================
 // Subscription Management
 // ============================================================================
 
-interface TurnEndSubscription {
-	socket: net.Socket;
+/** A control client: a Unix or TCP socket, or a WebSocket carrying the same lines. */
+interface ControlConnection {
+	write(line: string): void;
+	end(): void;
+	once(event: "close" | "error", listener: () => void): unknown;
+}
+
+interface EventSubscription {
+	socket: ControlConnection;
 	subscriptionId: string;
+	event: SubscribableEvent;
+	once: boolean;
+	filter?: RpcEventFilter;
 }
 
 interface SocketState {
@@ -130,7 +207,33 @@ interface SocketState {
 	context: ExtensionContext | null;
 	alias: string | null;
 	aliasTimer: ReturnType<typeof setInterval> | null;
-	turnEndSubscriptions: TurnEndSubscription[];
+	subscriptions: EventSubscription[];
+	listener: RemoteListener | null;
+	threads: Map<string, ConversationThread>;
+}
+
+// ============================================================================
+// Conversation Threads
+// ============================================================================
+
+type ThreadDirection = "outgoing" | "incoming";
+/** "closed" means the control server stopped before a reply came in. */
+type ThreadStatus = "open" | "replied" | "timed_out" | "closed";
+
+interface ConversationThread {
+	threadId: string;
+	direction: ThreadDirection;
+	/** The other side: the target of an outgoing thread, the sender of an incoming one. */
+	peerSessionId: string;
+	peerName?: string;
+	preview: string;
+	createdAt: number;
+	expiresAt: number;
+	status: ThreadStatus;
+	reply?: string;
+	timer?: ReturnType<typeof setTimeout>;
+	/** Set while a send_to_session call blocks on wait_until=reply. */
+	waiter?: (reply: string | null) => void;
 }
 
 // ============================================================================
@@ -187,12 +290,40 @@ function getSocketPath(sessionId: string): string {
 	return path.join(CONTROL_DIR, `${sessionId}${SOCKET_SUFFIX}`);
 }
 
+function getTokenPath(sessionId: string): string {
+	return path.join(CONTROL_DIR, `${sessionId}${TOKEN_SUFFIX}`);
+}
+
 function isSafeSessionId(sessionId: string): boolean {
 	return !sessionId.includes("/") && !sessionId.includes("\\") && !sessionId.includes("..") && sessionId.length > 0;
 }
 
 function isSafeAlias(alias: string): boolean {
-	return !alias.includes("/") && !alias.includes("\\") && !alias.includes("..") && alias.length > 0;
+	// "/" separates group segments (workers/1); each segment must be a plain name.
+	if (alias.includes("\\") || alias.includes("..") || alias.length === 0) return false;
+	return alias.split("/").every((segment) => segment.length > 0 && segment !== ".");
+}
+
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*" && pattern[i + 1] === "*") {
+			source += ".*";
+			i++;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+function isGlobPattern(pattern: string): boolean {
+	return pattern.includes("*") || pattern.includes("?");
 }
 
 function getAliasPath(alias: string): string {
@@ -221,35 +352,61 @@ async function removeSocket(socketPath: string | null): Promise<void> {
 	}
 }
 
+interface AliasLink {
+	aliasPath: string;
+	/** Absolute path of the socket the alias points to. */
+	target: string;
+}
+
+/** Alias symlinks in the control dir, including those in group subdirectories. */
+async function listAliasLinks(dir: string = CONTROL_DIR): Promise<AliasLink[]> {
+	const links: AliasLink[] = [];
+	let entries: Dirent[];
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true });
+	} catch (error) {
+		if (isErrnoException(error) && error.code === "ENOENT") return links;
+		throw error;
+	}
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			links.push(...(await listAliasLinks(entryPath)));
+			continue;
+		}
+		if (!entry.isSymbolicLink()) continue;
+		try {
+			const target = await fs.readlink(entryPath);
+			links.push({ aliasPath: entryPath, target: path.resolve(dir, target) });
+		} catch {
+			continue;
+		}
+	}
+	return links;
+}
+
 // TODO: add GC for stale sockets/aliases older than 7 days.
 async function removeAliasesForSocket(socketPath: string | null): Promise<void> {
 	if (!socketPath) return;
-	try {
-		const entries = await fs.readdir(CONTROL_DIR, { withFileTypes: true });
-		for (const entry of entries) {
-			if (!entry.isSymbolicLink()) continue;
-			const aliasPath = path.join(CONTROL_DIR, entry.name);
-			let target: string;
+	for (const link of await listAliasLinks()) {
+		if (link.target !== socketPath) continue;
+		await fs.unlink(link.aliasPath);
+		// Drop group directories once their last alias is gone.
+		for (let dir = path.dirname(link.aliasPath); dir !== CONTROL_DIR; dir = path.dirname(dir)) {
 			try {
-				target = await fs.readlink(aliasPath);
+				await fs.rmdir(dir);
 			} catch {
-				continue;
-			}
-			const resolvedTarget = path.resolve(CONTROL_DIR, target);
-			if (resolvedTarget === socketPath) {
-				await fs.unlink(aliasPath);
+				break;
 			}
 		}
-	} catch (error) {
-		if (isErrnoException(error) && error.code === "ENOENT") return;
-		throw error;
 	}
 }
 
 async function createAliasSymlink(sessionId: string, alias: string): Promise<void> {
 	if (!alias || !isSafeAlias(alias)) return;
 	const aliasPath = getAliasPath(alias);
-	const target = `${sessionId}${SOCKET_SUFFIX}`;
+	const target = path.relative(path.dirname(aliasPath), getSocketPath(sessionId));
+	await fs.mkdir(path.dirname(aliasPath), { recursive: true });
 	try {
 		await fs.unlink(aliasPath);
 	} catch (error) {
@@ -271,7 +428,7 @@ async function resolveSessionIdFromAlias(alias: string): Promise<string | null>
 	const aliasPath = getAliasPath(alias);
 	try {
 		const target = await fs.readlink(aliasPath);
-		const resolvedTarget = path.resolve(CONTROL_DIR, target);
+		const resolvedTarget = path.resolve(path.dirname(aliasPath), target);
 		const base = path.basename(resolvedTarget);
 		if (!base.endsWith(SOCKET_SUFFIX)) return null;
 		const sessionId = base.slice(0, -SOCKET_SUFFIX.length);
@@ -284,24 +441,14 @@ async function resolveSessionIdFromAlias(alias: string): Promise<string | null>
 
 async function getAliasMap(): Promise<Map<string, string[]>> {
 	const aliasMap = new Map<string, string[]>();
-	const entries = await fs.readdir(CONTROL_DIR, { withFileTypes: true });
-	for (const entry of entries) {
-		if (!entry.isSymbolicLink()) continue;
-		if (!entry.name.endsWith(".alias")) continue;
-		const aliasPath = path.join(CONTROL_DIR, entry.name);
-		let target: string;
-		try {
-			target = await fs.readlink(aliasPath);
-		} catch {
-			continue;
-		}
-		const resolvedTarget = path.resolve(CONTROL_DIR, target);
-		const aliases = aliasMap.get(resolvedTarget);
-		const aliasName = entry.name.slice(0, -".alias".length);
+	for (const link of await listAliasLinks()) {
+		if (!link.aliasPath.endsWith(".alias")) continue;
+		const aliasName = path.relative(CONTROL_DIR, link.aliasPath).slice(0, -".alias".length).split(path.sep).join("/");
+		const aliases = aliasMap.get(link.target);
 		if (aliases) {
 			aliases.push(aliasName);
 		} else {
-			aliasMap.set(resolvedTarget, [aliasName]);
+			aliasMap.set(link.target, [aliasName]);
 		}
 	}
 	return aliasMap;
@@ -360,6 +507,15 @@ async function getLiveSessions(): Promise<LiveSessionInfo[]> {
 	return sessions;
 }
 
+/** Live sessions whose id or any alias matches `pattern` (a glob such as `workers/*`). */
+async function getMatchingSessions(pattern: string): Promise<LiveSessionInfo[]> {
+	const regex = globToRegExp(pattern);
+	const sessions = await getLiveSessions();
+	return sessions.filter(
+		(session) => regex.test(session.sessionId) || session.aliases.some((alias) => regex.test(alias)),
+	);
+}
+
 async function syncAlias(state: SocketState, ctx: ExtensionContext): Promise<void> {
 	if (!state.server || !state.socketPath) return;
 	const alias = getSessionAlias(ctx);
@@ -375,7 +531,7 @@ async function syncAlias(state: SocketState, ctx: ExtensionContext): Promise<voi
 	}
 }
 
-function writeResponse(socket: net.Socket, response: RpcResponse): void {
+function writeResponse(socket: ControlConnection, response: RpcResponse): void {
 	try {
 		socket.write(`${JSON.stringify(response)}\n`);
 	} catch {
@@ -383,7 +539,7 @@ function writeResponse(socket: net.Socket, response: RpcResponse): void {
 	}
 }
 
-function writeEvent(socket: net.Socket, event: RpcEvent): void {
+function writeEvent(socket: ControlConnection, event: RpcEvent): void {
 	try {
 		socket.write(`${JSON.stringify(event)}\n`);
 	} catch {
@@ -499,6 +655,7 @@ function stripSenderInfo(text: string): string {
 interface SenderInfo {
 	sessionId?: string;
 	sessionName?: string;
+	threadId?: string;
 }
 
 function parseSenderInfo(text: string): SenderInfo | null {
@@ -509,13 +666,15 @@ function parseSenderInfo(text: string): SenderInfo | null {
 
 	if (raw.startsWith("{")) {
 		try {
-			const parsed = JSON.parse(raw) as { sessionId?: unknown; sessionName?: unknown };
+			const parsed = JSON.parse(raw) as { sessionId?: unknown; sessionName?: unknown; threadId?: unknown };
 			const sessionId = typeof parsed.sessionId === "string" ? parsed.sessionId.trim() : "";
 			const sessionName = typeof parsed.sessionName === "string" ? parsed.sessionName.trim() : "";
+			const threadId = typeof parsed.threadId === "string" ? parsed.threadId.trim() : "";
 			if (sessionId || sessionName) {
 				return {
 					sessionId: sessionId || undefined,
 					sessionName: sessionName || undefined,
+					threadId: threadId || undefined,
 				};
 			}
 		} catch {
@@ -556,7 +715,8 @@ const renderSessionMessage: MessageRenderer = (message, { expanded }, theme) =>
 	const box = new Box(1, 1, (t) => theme.bg("customMessageBg", t));
 	const labelBase = theme.fg("customMessageLabel", `\x1b[1m[${message.customType}]\x1b[22m`);
 	const senderText = formatSenderInfo(senderInfo);
-	const label = senderText ? `${labelBase} ${theme.fg("dim", `from ${senderText}`)}` : labelBase;
+	let label = senderText ? `${labelBase} ${theme.fg("dim", `from ${senderText}`)}` : labelBase;
+	if (senderInfo?.threadId) label += theme.fg("dim", ` · thread ${senderInfo.threadId}`);
 	box.addChild(new Text(label, 0, 0));
 	box.addChild(new Spacer(1));
 	box.addChild(
@@ -567,6 +727,240 @@ const renderSessionMessage: MessageRenderer = (message, { expanded }, theme) =>
 	return box;
 };
 
+// ============================================================================
+// Thread Tracking
+// ============================================================================
+
+const DEFAULT_REPLY_TIMEOUT_MS = 10 * 60 * 1000;
+const THREAD_PREVIEW_LENGTH = 80;
+/** Open threads kept per session; the oldest is dropped to make room. */
+const MAX_THREADS = 200;
+
+function createThreadId(): string {
+	return `thr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function previewThreadMessage(message: string): string {
+	const firstLine = stripSenderInfo(message).split("\n")[0] ?? "";
+	return firstLine.length > THREAD_PREVIEW_LENGTH ? `${firstLine.slice(0, THREAD_PREVIEW_LENGTH)}...` : firstLine;
+}
+
+/**
+ * Sender info appended to outgoing messages.  Requests on a thread carry
+ * `threadId` and `expectsReply`; replies carry only the `threadId` they answer.
+ */
+function buildSenderInfo(state: SocketState, threadId?: string, expectsReply?: boolean): string {
+	const sessionId = state.context?.sessionManager.getSessionId();
+	if (!sessionId) return "";
+	const sessionName = state.context?.sessionManager.getSessionName()?.trim();
+	return `\n\n<sender_info>${JSON.stringify({
+		sessionId,
+		sessionName: sessionName || undefined,
+		threadId,
+		expectsReply: expectsReply || undefined,
+	})}</sender_info>`;
+}
+
+/** Forgets a thread, waking a blocked send_to_session call with no reply. */
+function removeThread(state: SocketState, thread: ConversationThread): void {
+	if (thread.timer) clearTimeout(thread.timer);
+	thread.timer = undefined;
+	if (state.threads.get(thread.threadId) === thread) state.threads.delete(thread.threadId);
+	const waiter = thread.waiter;
+	thread.waiter = undefined;
+	waiter?.(null);
+}
+
+function addThread(state: SocketState, thread: ConversationThread): void {
+	while (state.threads.size >= MAX_THREADS) {
+		const [oldest] = state.threads.values();
+		if (!oldest) break;
+		if (oldest.status === "open") oldest.status = "timed_out";
+		removeThread(state, oldest);
+	}
+	state.threads.set(thread.threadId, thread);
+}
+
+function openOutgoingThread(
+	pi: ExtensionAPI,
+	state: SocketState,
+	init: { threadId: string; peerSessionId: string; peerName?: string; message: string; timeoutMs: number },
+): ConversationThread {
+	const now = Date.now();
+	const thread: ConversationThread = {
+		threadId: init.threadId,
+		direction: "outgoing",
+		peerSessionId: init.peerSessionId,
+		peerName: init.peerName,
+		preview: previewThreadMessage(init.message),
+		createdAt: now,
+		expiresAt: now + init.timeoutMs,
+		status: "open",
+	};
+	thread.timer = setTimeout(() => {
+		thread.timer = undefined;
+		if (thread.status !== "open") return;
+		thread.status = "timed_out";
+		const waiter = thread.waiter;
+		removeThread(state, thread);
+		if (waiter) return;
+		const peer = thread.peerName ?? thread.peerSessionId;
+		const customMessage = {
+			customType: SESSION_MESSAGE_TYPE,
+			content: `No reply from ${peer} on thread ${thread.threadId} within ${formatDuration(init.timeoutMs)}.`,
+			display: true,
+		};
+		if (state.context && !state.context.isIdle()) {
+			pi.sendMessage(customMessage, { triggerTurn: true, deliverAs: "followUp" });
+		} else {
+			pi.sendMessage(customMessage, { triggerTurn: true });
+		}
+	}, init.timeoutMs);
+	addThread(state, thread);
+	return thread;
+}
+
+/** Resolves with the reply text, or null on timeout, shutdown or when the tool call is aborted. */
+function waitForThreadReply(thread: ConversationThread, signal?: AbortSignal): Promise<string | null> {
+	if (thread.status === "replied") return Promise.resolve(thread.reply ?? null);
+	if (thread.status !== "open" || signal?.aborted) return Promise.resolve(null);
+	return new Promise((resolve) => {
+		const onAbort = () => {
+			// Stop blocking; a later reply is delivered as a session message instead.
+			thread.waiter = undefined;
+			resolve(null);
+		};
+		thread.waiter = (reply) => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(reply);
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function recordIncomingThread(state: SocketState, thread: RpcThreadInfo, message: string): void {
+	if (typeof thread.id !== "string" || typeof thread.senderSessionId !== "string") return;
+	if (!isSafeSessionId(thread.senderSessionId)) return;
+	// Never let a peer overwrite a thread that is already tracked.
+	if (state.threads.has(thread.id)) return;
+	const now = Date.now();
+	const timeoutMs = typeof thread.timeoutMs === "number" && thread.timeoutMs > 0 ? thread.timeoutMs : DEFAULT_REPLY_TIMEOUT_MS;
+	const incoming: ConversationThread = {
+		threadId: thread.id,
+		direction: "incoming",
+		peerSessionId: thread.senderSessionId,
+		peerName: thread.senderSessionName,
+		preview: previewThreadMessage(message),
+		createdAt: now,
+		expiresAt: now + timeoutMs,
+		status: "open",
+	};
+	// The sender stops waiting at the same time, so a later reply would go nowhere.
+	incoming.timer = setTimeout(() => {
+		incoming.timer = undefined;
+		incoming.status = "timed_out";
+		removeThread(state, incoming);
+	}, timeoutMs);
+	addThread(state, incoming);
+}
+
+/**
+ * Marks an outgoing thread as answered and forgets it.  Returns true when a
+ * blocked send_to_session call took the reply, so it must not also be delivered
+ * as a message, and an error when the reply doesn't come from the thread's peer.
+ */
+function deliverThreadReply(state: SocketState, threadId: string, reply: string): boolean | { error: string } {
+	const thread = state.threads.get(threadId);
+	if (!thread || thread.direction !== "outgoing") return false;
+	// The sender info is appended last, so an earlier block in the text cannot stand in for it.
+	const senderInfo = reply.match(SENDER_INFO_PATTERN)?.at(-1);
+	if (!senderInfo || parseSenderInfo(senderInfo)?.sessionId !== thread.peerSessionId) {
+		return { error: `Reply on thread ${threadId} does not come from ${thread.peerSessionId}` };
+	}
+	thread.status = "replied";
+	thread.reply = reply;
+	const waiter = thread.waiter;
+	thread.waiter = undefined;
+	removeThread(state, thread);
+	if (!waiter) return false;
+	waiter(reply);
+	return true;
+}
+
+function clearThreads(state: SocketState): void {
+	for (const thread of [...state.threads.values()]) {
+		if (thread.status === "open") thread.status = "closed";
+		removeThread(state, thread);
+	}
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.max(0, Math.round(ms / 1000));
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) return `${minutes}m`;
+	return `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ""}`;
+}
+
+function formatThreadLine(thread: ConversationThread, now: number): string {
+	const peer = thread.peerName ? `${thread.peerName} (${thread.peerSessionId})` : thread.peerSessionId;
+	const age = formatDuration(now - thread.createdAt);
+	const expiry = thread.expiresAt > now ? `expires in ${formatDuration(thread.expiresAt - now)}` : "expired";
+	const preview = thread.preview ? `: "${thread.preview}"` : "";
+	if (thread.direction === "outgoing") {
+		return `- ${thread.threadId} → ${peer}, waiting ${age}, ${expiry}${preview}`;
+	}
+	return `- ${thread.threadId} ← ${peer}, awaiting your reply for ${age}, ${expiry}${preview}`;
+}
+
+// ============================================================================
+// Event Streaming
+// ============================================================================
+
+const TOOL_ARG_PREVIEW_LENGTH = 200;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function summarizeToolArgs(input: unknown): Record<string, unknown> {
+	const summary: Record<string, unknown> = {};
+	if (!isRecord(input)) return summary;
+	for (const [key, value] of Object.entries(input)) {
+		if (value === null || typeof value === "number" || typeof value === "boolean") {
+			summary[key] = value;
+			continue;
+		}
+		const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+		summary[key] = text.length > TOOL_ARG_PREVIEW_LENGTH ? `${text.slice(0, TOOL_ARG_PREVIEW_LENGTH)}...` : text;
+	}
+	return summary;
+}
+
+export function matchesEventFilter(filter: RpcEventFilter | undefined, data: { toolName?: string; isError?: boolean }): boolean {
+	if (!filter) return true;
+	if (Array.isArray(filter.toolNames) && data.toolName !== undefined && !filter.toolNames.includes(data.toolName)) {
+		return false;
+	}
+	if (filter.errorsOnly === true && data.isError === false) return false;
+	return true;
+}
+
+function emitEvent(
+	state: SocketState,
+	event: SubscribableEvent,
+	data: Record<string, unknown> & { toolName?: string; isError?: boolean },
+): void {
+	const matching = state.subscriptions.filter(
+		(sub) => sub.event === event && matchesEventFilter(sub.filter, data),
+	);
+	if (matching.length === 0) return;
+	state.subscriptions = state.subscriptions.filter((sub) => !(sub.once && matching.includes(sub)));
+	for (const sub of matching) {
+		writeEvent(sub.socket, { type: "event", event, data, subscriptionId: sub.subscriptionId });
+	}
+}
+
 // ============================================================================
 // Command Handlers
 // ============================================================================
@@ -575,7 +969,7 @@ async function handleCommand(
 	pi: ExtensionAPI,
 	state: SocketState,
 	command: RpcCommand,
-	socket: net.Socket,
+	socket: ControlConnection,
 ): Promise<void> {
 	const id = "id" in command && typeof command.id === "string" ? command.id : undefined;
 	const respond = (success: boolean, commandName: string, data?: unknown, error?: string) => {
@@ -600,23 +994,31 @@ async function handleCommand(
 		return;
 	}
 
-	// Subscribe to turn_end
+	// Subscribe to session events
 	if (command.type === "subscribe") {
-		if (command.event === "turn_end") {
+		if (SUBSCRIBABLE_EVENTS.includes(command.event)) {
 			const subscriptionId = id ?? `sub_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-			state.turnEndSubscriptions.push({ socket, subscriptionId });
+			// turn_end stays one-shot by default so existing wait_until callers keep working.
+			const once = typeof command.once === "boolean" ? command.once : command.event === "turn_end";
+			const filter = command.filter && typeof command.filter === "object" ? command.filter : undefined;
+			state.subscriptions.push({ socket, subscriptionId, event: command.event, once, filter });
 
 			const cleanup = () => {
-				const idx = state.turnEndSubscriptions.findIndex((s) => s.subscriptionId === subscriptionId);
-				if (idx !== -1) state.turnEndSubscriptions.splice(idx, 1);
+				const idx = state.subscriptions.findIndex((s) => s.subscriptionId === subscriptionId);
+				if (idx !== -1) state.subscriptions.splice(idx, 1);
 			};
 			socket.once("close", cleanup);
 			socket.once("error", cleanup);
 
-			respond(true, "subscribe", { subscriptionId, event: "turn_end" });
+			respond(true, "subscribe", { subscriptionId, event: command.event, once });
 			return;
 		}
-		respond(false, "subscribe", undefined, `Unknown event type: ${command.event}`);
+		respond(
+			false,
+			"subscribe",
+			undefined,
+			`Unknown event type: ${command.event} (supported: ${SUBSCRIBABLE_EVENTS.join(", ")})`,
+		);
 		return;
 	}
 
@@ -731,6 +1133,21 @@ async function handleCommand(
 			return;
 		}
 
+		if (typeof command.replyTo === "string") {
+			const delivered = deliverThreadReply(state, command.replyTo, message);
+			if (typeof delivered === "object") {
+				respond(false, "send", undefined, delivered.error);
+				return;
+			}
+			if (delivered) {
+				respond(true, "send", { delivered: true, mode: "thread", threadId: command.replyTo });
+				return;
+			}
+		}
+		if (command.thread && typeof command.thread === "object") {
+			recordIncomingThread(state, command.thread, message);
+		}
+
 		const mode = command.mode ?? "steer";
 		const isIdle = ctx.isIdle();
 		const customMessage = {
@@ -759,50 +1176,404 @@ async function handleCommand(
 // Server Management
 // ============================================================================
 
-async function createServer(pi: ExtensionAPI, state: SocketState, socketPath: string): Promise<net.Server> {
-	const server = net.createServer((socket) => {
-		socket.setEncoding("utf8");
-		let buffer = "";
-		socket.on("data", (chunk) => {
-			buffer += chunk;
-			let newlineIndex = buffer.indexOf("\n");
-			while (newlineIndex !== -1) {
-				const line = buffer.slice(0, newlineIndex).trim();
-				buffer = buffer.slice(newlineIndex + 1);
-				newlineIndex = buffer.indexOf("\n");
-				if (!line) continue;
+/** Longest line accepted before a connection has authenticated. */
+const MAX_PRE_AUTH_LINE = 4 * 1024;
+/** Longest command line accepted at all (messages may carry large prompts). */
+const MAX_COMMAND_LINE = 16 * 1024 * 1024;
 
-				const parsed = parseCommand(line);
-				if (parsed.error) {
-					if (state.context) {
-						void syncAlias(state, state.context);
-					}
-					writeResponse(socket, {
-						type: "response",
-						command: "parse",
-						success: false,
-						error: `Failed to parse command: ${parsed.error}`,
-					});
-					continue;
+interface LineHandler {
+	onData: (chunk: string | Buffer) => void;
+	/** Longest line accepted in the current auth state. */
+	maxLineLength: () => number;
+}
+
+/**
+ * Returns a data handler that splits `connection`'s input into commands.  With a
+ * `token`, the first command must be a matching auth; anything else closes the
+ * connection, as does a line longer than the limit for the auth state.
+ */
+function createLineHandler(
+	pi: ExtensionAPI,
+	state: SocketState,
+	connection: ControlConnection,
+	token: string | null,
+): LineHandler {
+	let buffer = "";
+	let authenticated = token === null;
+	let closed = false;
+	const close = () => {
+		closed = true;
+		buffer = "";
+		connection.end();
+	};
+	const maxLineLength = () => (authenticated ? MAX_COMMAND_LINE : MAX_PRE_AUTH_LINE);
+	const rejectOversized = () => {
+		writeResponse(connection, {
+			type: "response",
+			command: "parse",
+			success: false,
+			error: `Command is longer than ${maxLineLength()} characters`,
+		});
+		close();
+	};
+	const onData = (chunk: string | Buffer) => {
+		if (closed) return;
+		buffer += chunk;
+		let newlineIndex = buffer.indexOf("\n");
+		while (newlineIndex !== -1) {
+			if (newlineIndex > maxLineLength()) {
+				rejectOversized();
+				return;
+			}
+			const line = buffer.slice(0, newlineIndex).trim();
+			buffer = buffer.slice(newlineIndex + 1);
+			newlineIndex = buffer.indexOf("\n");
+			if (!line) continue;
+
+			const parsed = parseCommand(line);
+			if (parsed.error) {
+				if (state.context) {
+					void syncAlias(state, state.context);
+				}
+				writeResponse(connection, {
+					type: "response",
+					command: "parse",
+					success: false,
+					error: `Failed to parse command: ${parsed.error}`,
+				});
+				if (!authenticated) {
+					close();
+					return;
 				}
+				continue;
+			}
 
-				handleCommand(pi, state, parsed.command!, socket);
+			const command = parsed.command!;
+			if (command.type === "auth") {
+				// The Unix socket needs no token; acknowledge so clients can auth unconditionally.
+				authenticated = token === null || (typeof command.token === "string" && tokensMatch(command.token, token));
+				writeResponse(connection, {
+					type: "response",
+					command: "auth",
+					success: authenticated,
+					error: authenticated ? undefined : "Invalid token",
+					id: command.id,
+				});
+				if (!authenticated) {
+					close();
+					return;
+				}
+				continue;
 			}
-		});
-	});
+			if (!authenticated) {
+				writeResponse(connection, {
+					type: "response",
+					command: command.type,
+					success: false,
+					error: "Not authenticated (send { type: \"auth\", token } first)",
+				});
+				close();
+				return;
+			}
+
+			handleCommand(pi, state, command, connection);
+		}
+		// An unterminated line must not grow without bound either.
+		if (buffer.length > maxLineLength()) {
+			rejectOversized();
+		}
+	};
+	return { onData, maxLineLength };
+}
 
+async function listen(server: net.Server, options: net.ListenOptions): Promise<void> {
 	// Wait for server to start listening, with error handling
 	await new Promise<void>((resolve, reject) => {
 		server.once("error", reject);
-		server.listen(socketPath, () => {
+		server.listen(options, () => {
 			server.removeListener("error", reject);
 			resolve();
 		});
 	});
+}
+
+async function createServer(pi: ExtensionAPI, state: SocketState, socketPath: string): Promise<net.Server> {
+	const server = net.createServer((socket) => {
+		socket.setEncoding("utf8");
+		socket.on("data", createLineHandler(pi, state, socket, null).onData);
+	});
+	await listen(server, { path: socketPath });
+	return server;
+}
+
+// ============================================================================
+// Remote Transports
+// ============================================================================
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+/** Close status 1009: the message is too big to process (RFC 6455 7.4.1). */
+const WEBSOCKET_CLOSE_TOO_BIG = Buffer.from([0x03, 0xf1]);
+
+type ListenTransport = "tcp" | "ws";
+
+interface ListenSpec {
+	transport: ListenTransport;
+	port: number;
+}
+
+/** Contents of `<session-id>.token`, read by remote clients to find and unlock the listener. */
+interface ControlEndpoint {
+	transport: ListenTransport;
+	host: string;
+	port: number;
+	token: string;
+}
+
+interface RemoteListener {
+	endpoint: ControlEndpoint;
+	tokenPath: string;
+	close: () => Promise<void>;
+}
+
+/** Parses `tcp`, `ws`, `tcp:7777` or `ws:7777`. */
+export function parseListenSpec(value: string): ListenSpec | null {
+	const match = value.trim().match(/^(tcp|ws)(?::(\d+))?$/);
+	if (!match) return null;
+	const port = match[2] ? Number(match[2]) : 0;
+	if (port > 65535) return null;
+	return { transport: match[1] as ListenTransport, port };
+}
+
+function tokensMatch(candidate: string, token: string): boolean {
+	const a = Buffer.from(candidate);
+	const b = Buffer.from(token);
+	return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function writeWebSocketFrame(socket: Duplex, opcode: number, payload: Buffer): void {
+	let header: Buffer;
+	if (payload.length < 126) {
+		header = Buffer.from([0x80 | opcode, payload.length]);
+	} else if (payload.length < 0x10000) {
+		header = Buffer.alloc(4);
+		header[0] = 0x80 | opcode;
+		header[1] = 126;
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header[0] = 0x80 | opcode;
+		header[1] = 127;
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+	}
+	if (!socket.writable) return;
+	try {
+		socket.write(Buffer.concat([header, payload]));
+	} catch {
+		// Socket may be closed
+	}
+}
+
+function createWebSocketConnection(socket: Duplex): ControlConnection {
+	return {
+		write: (line) => writeWebSocketFrame(socket, 0x1, Buffer.from(line, "utf8")),
+		end: () => {
+			writeWebSocketFrame(socket, 0x8, Buffer.alloc(0));
+			socket.end();
+		},
+		once: (event, listener) => socket.once(event, listener),
+	};
+}
+
+/**
+ * Decodes client frames from `socket` and passes text messages to `onText`.  Only
+ * the subset a line protocol needs: text, continuation, ping and close.  A frame
+ * or fragmented message longer than `maxMessageLength()` closes the connection.
+ */
+export function readWebSocketFrames(
+	socket: Duplex,
+	head: Buffer,
+	maxMessageLength: () => number,
+	onText: (text: string) => void,
+): void {
+	let buffer: Buffer = Buffer.from(head);
+	let fragments: Buffer[] = [];
+	let fragmentsLength = 0;
+	let receivingText = false;
+	let closed = false;
+
+	const closeTooBig = () => {
+		closed = true;
+		buffer = Buffer.alloc(0);
+		fragments = [];
+		writeWebSocketFrame(socket, 0x8, WEBSOCKET_CLOSE_TOO_BIG);
+		socket.end();
+	};
+
+	const processFrames = () => {
+		while (!closed && buffer.length >= 2) {
+			const fin = (buffer[0] & 0x80) !== 0;
+			const opcode = buffer[0] & 0x0f;
+			const masked = (buffer[1] & 0x80) !== 0;
+			let length = buffer[1] & 0x7f;
+			let offset = 2;
+			if (length === 126) {
+				if (buffer.length < 4) return;
+				length = buffer.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (buffer.length < 10) return;
+				length = Number(buffer.readBigUInt64BE(2));
+				offset = 10;
+			}
+			// Clients must mask their frames (RFC 6455 5.1).
+			if (!masked) {
+				socket.destroy();
+				return;
+			}
+			// Checked on the header, before any of the payload is buffered; a continuation
+			// frame counts towards the message it continues.
+			const messageLength = opcode === 0x0 ? fragmentsLength + length : length;
+			if (messageLength > maxMessageLength()) {
+				closeTooBig();
+				return;
+			}
+			if (buffer.length < offset + 4 + length) return;
+
+			const mask = buffer.subarray(offset, offset + 4);
+			const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+			for (let i = 0; i < payload.length; i++) {
+				payload[i] ^= mask[i % 4];
+			}
+			buffer = buffer.subarray(offset + 4 + length);
+
+			if (opcode === 0x8) {
+				writeWebSocketFrame(socket, 0x8, payload.subarray(0, 2));
+				socket.end();
+				return;
+			}
+			if (opcode === 0x9) {
+				writeWebSocketFrame(socket, 0xa, payload);
+				continue;
+			}
+			if (opcode === 0x1 || opcode === 0x2) {
+				receivingText = opcode === 0x1;
+				fragments = [];
+				fragmentsLength = 0;
+			}
+			if (!receivingText || (opcode !== 0x0 && opcode !== 0x1)) continue;
+
+			fragmentsLength += payload.length;
+			fragments.push(payload);
+			if (fin) {
+				const text = Buffer.concat(fragments).toString("utf8");
+				fragments = [];
+				fragmentsLength = 0;
+				receivingText = false;
+				// A frame is a complete message, so a missing trailing newline is implied.
+				onText(text.endsWith("\n") ? text : `${text}\n`);
+			}
+		}
+	};
+
+	socket.on("data", (chunk: Buffer) => {
+		if (closed) return;
+		buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+		processFrames();
+	});
+	processFrames();
+}
+
+function createWebSocketServer(pi: ExtensionAPI, state: SocketState, token: string): http.Server {
+	const server = http.createServer((_req, res) => {
+		res.writeHead(426, { "Content-Type": "text/plain", Upgrade: "websocket" });
+		res.end("pi session control expects a WebSocket connection\n");
+	});
+
+	server.on("upgrade", (req, socket: Duplex, head: Buffer) => {
+		const key = req.headers["sec-websocket-key"];
+		if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+			socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+			return;
+		}
+		// Browsers cannot set headers on a WebSocket, so the token may also come as a query parameter.
+		const queryToken = new URL(req.url ?? "/", `http://${LISTEN_HOST}`).searchParams.get("token");
+		if (queryToken !== null && !tokensMatch(queryToken, token)) {
+			socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+			return;
+		}
+
+		const accept = crypto.createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+		socket.write(
+			[
+				"HTTP/1.1 101 Switching Protocols",
+				"Upgrade: websocket",
+				"Connection: Upgrade",
+				`Sec-WebSocket-Accept: ${accept}`,
+				"",
+				"",
+			].join("\r\n"),
+		);
+
+		const connection = createWebSocketConnection(socket);
+		socket.on("error", () => socket.destroy());
+		// HTTP sockets allow half-open connections; close ours once the client is done sending.
+		socket.on("end", () => socket.end());
+		const lines = createLineHandler(pi, state, connection, queryToken === null ? token : null);
+		// A frame is one line, so the line limit also bounds what is buffered before auth.
+		readWebSocketFrames(socket, head, lines.maxLineLength, lines.onData);
+	});
 
 	return server;
 }
 
+function createTcpServer(pi: ExtensionAPI, state: SocketState, token: string): net.Server {
+	return net.createServer((socket) => {
+		socket.setEncoding("utf8");
+		socket.on("data", createLineHandler(pi, state, socket, token).onData);
+	});
+}
+
+/** Opens the localhost listener and publishes its port and token next to the session socket. */
+async function startRemoteListener(
+	pi: ExtensionAPI,
+	state: SocketState,
+	sessionId: string,
+	spec: ListenSpec,
+): Promise<RemoteListener> {
+	const token = crypto.randomBytes(32).toString("hex");
+	const server =
+		spec.transport === "ws" ? createWebSocketServer(pi, state, token) : createTcpServer(pi, state, token);
+
+	// Track clients so shutdown is not held up by a dashboard that stays connected.
+	const clients = new Set<net.Socket>();
+	server.on("connection", (socket: net.Socket) => {
+		clients.add(socket);
+		socket.once("close", () => clients.delete(socket));
+	});
+
+	await listen(server, { port: spec.port, host: LISTEN_HOST });
+	const address = server.address() as net.AddressInfo;
+	const endpoint: ControlEndpoint = { transport: spec.transport, host: LISTEN_HOST, port: address.port, token };
+	const tokenPath = getTokenPath(sessionId);
+
+	const close = async () => {
+		await fs.rm(tokenPath, { force: true });
+		for (const socket of clients) socket.destroy();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	};
+
+	try {
+		// Recreate rather than overwrite so the 0600 mode always applies.
+		await fs.rm(tokenPath, { force: true });
+		await fs.writeFile(tokenPath, `${JSON.stringify(endpoint, null, 2)}\n`, { mode: 0o600 });
+	} catch (error) {
+		await close();
+		throw error;
+	}
+
+	return { endpoint, tokenPath, close };
+}
+
 interface RpcClientOptions {
 	timeout?: number;
 	waitForEvent?: "turn_end";
@@ -893,6 +1664,36 @@ async function sendRpcCommand(
 	});
 }
 
+interface BroadcastResult {
+	sessionId: string;
+	name?: string;
+	success: boolean;
+	error?: string;
+	message?: ExtractedMessage;
+}
+
+/** Sends `command` to every matching live session in parallel; one failure does not stop the rest. */
+async function broadcastRpcCommand(
+	sessions: LiveSessionInfo[],
+	command: RpcSendCommand,
+	options: RpcClientOptions = {},
+): Promise<BroadcastResult[]> {
+	return Promise.all(
+		sessions.map(async (session): Promise<BroadcastResult> => {
+			const target = { sessionId: session.sessionId, name: session.name };
+			try {
+				const result = await sendRpcCommand(session.socketPath, command, options);
+				if (!result.response.success) {
+					return { ...target, success: false, error: result.response.error ?? "unknown error" };
+				}
+				return { ...target, success: true, message: result.event?.message };
+			} catch (error) {
+				return { ...target, success: false, error: error instanceof Error ? error.message : "Unknown error" };
+			}
+		}),
+	);
+}
+
 async function startControlServer(pi: ExtensionAPI, state: SocketState, ctx: ExtensionContext): Promise<void> {
 	await ensureControlDir();
 	const sessionId = ctx.sessionManager.getSessionId();
@@ -912,9 +1713,37 @@ async function startControlServer(pi: ExtensionAPI, state: SocketState, ctx: Ext
 	state.server = await createServer(pi, state, socketPath);
 	state.alias = null;
 	await syncAlias(state, ctx);
+
+	const listenValue = pi.getFlag(LISTEN_FLAG);
+	if (typeof listenValue !== "string" || listenValue.trim().length === 0) return;
+	const spec = parseListenSpec(listenValue);
+	if (!spec) {
+		if (ctx.hasUI) {
+			ctx.ui.notify(`Invalid --${LISTEN_FLAG} value "${listenValue}" (expected tcp[:port] or ws[:port])`, "warning");
+		}
+		return;
+	}
+	try {
+		state.listener = await startRemoteListener(pi, state, sessionId, spec);
+	} catch (error) {
+		// The Unix socket keeps working; only the extra transport is missing.
+		if (ctx.hasUI) {
+			const message = error instanceof Error ? error.message : String(error);
+			ctx.ui.notify(`Session control could not listen on ${spec.transport}:${spec.port}: ${message}`, "warning");
+		}
+	}
 }
 
 async function stopControlServer(state: SocketState): Promise<void> {
+	// Replies are addressed to this socket, so threads cannot outlive it.
+	clearThreads(state);
+
+	if (state.listener) {
+		const listener = state.listener;
+		state.listener = null;
+		await listener.close();
+	}
+
 	if (!state.server) {
 		await removeAliasesForSocket(state.socketPath);
 		await removeSocket(state.socketPath);
@@ -925,7 +1754,7 @@ async function stopControlServer(state: SocketState): Promise<void> {
 
 	const socketPath = state.socketPath;
 	state.socketPath = null;
-	state.turnEndSubscriptions = [];
+	state.subscriptions = [];
 	await new Promise<void>((resolve) => state.server?.close(() => resolve()));
 	state.server = null;
 	await removeAliasesForSocket(socketPath);
@@ -962,20 +1791,28 @@ export default function (pi: ExtensionAPI) {
 		type: "boolean",
 	});
 
+	pi.registerFlag(LISTEN_FLAG, {
+		description: "With --session-control, also listen on 127.0.0.1: tcp[:port] or ws[:port] (token in <session-id>.token)",
+		type: "string",
+	});
+
 	const state: SocketState = {
 		server: null,
 		socketPath: null,
 		context: null,
 		alias: null,
 		aliasTimer: null,
-		turnEndSubscriptions: [],
+		subscriptions: [],
+		listener: null,
+		threads: new Map(),
 	};
 
 	pi.registerMessageRenderer(SESSION_MESSAGE_TYPE, renderSessionMessage);
 
 	registerSessionTool(pi, state);
+	registerReplyTool(pi, state);
 	registerListSessionsTool(pi);
-	registerControlSessionsCommand(pi);
+	registerControlSessionsCommand(pi, state);
 
 	const refreshServer = async (ctx: ExtensionContext) => {
 		const enabled = pi.getFlag(CONTROL_FLAG) === true;
@@ -1009,6 +1846,8 @@ export default function (pi: ExtensionAPI) {
 	});
 
 	pi.on("session_shutdown", async () => {
+		// Tell supervisors before the socket goes away.
+		emitEvent(state, "session_shutdown", {});
 		if (state.aliasTimer) {
 			clearInterval(state.aliasTimer);
 			state.aliasTimer = null;
@@ -1020,24 +1859,48 @@ export default function (pi: ExtensionAPI) {
 
 	// Fire turn_end events to subscribers
 	pi.on("turn_end", (event: TurnEndEvent, ctx: ExtensionContext) => {
-		if (state.turnEndSubscriptions.length === 0) return;
+		if (state.subscriptions.length === 0) return;
 
 		void syncAlias(state, ctx);
 		const lastMessage = getLastAssistantMessage(ctx);
-		const eventData = { message: lastMessage, turnIndex: event.turnIndex };
-
-		// Fire to all subscribers (one-shot)
-		const subscriptions = [...state.turnEndSubscriptions];
-		state.turnEndSubscriptions = [];
-
-		for (const sub of subscriptions) {
-			writeEvent(sub.socket, {
-				type: "event",
-				event: "turn_end",
-				data: eventData,
-				subscriptionId: sub.subscriptionId,
-			});
-		}
+		emitEvent(state, "turn_end", { message: lastMessage, turnIndex: event.turnIndex });
+	});
+
+	pi.on("agent_start", () => {
+		emitEvent(state, "agent_start", {});
+	});
+
+	pi.on("agent_end", (event, ctx) => {
+		if (state.subscriptions.length === 0) return;
+		emitEvent(state, "agent_end", { message: getLastAssistantMessage(ctx), messageCount: event.messages.length });
+	});
+
+	pi.on("tool_call", (event) => {
+		if (state.subscriptions.length === 0) return;
+		emitEvent(state, "tool_call", {
+			toolCallId: event.toolCallId,
+			toolName: event.toolName,
+			args: summarizeToolArgs(event.input),
+		});
+	});
+
+	pi.on("tool_result", (event) => {
+		if (state.subscriptions.length === 0) return;
+		emitEvent(state, "tool_result", {
+			toolCallId: event.toolCallId,
+			toolName: event.toolName,
+			args: summarizeToolArgs(event.input),
+			isError: event.isError,
+		});
+	});
+
+	pi.on("model_select", (event) => {
+		emitEvent(state, "model_select", {
+			provider: event.model.provider,
+			modelId: event.model.id,
+			previousModelId: event.previousModel?.id,
+			source: event.source,
+		});
 	});
 }
 
@@ -1056,23 +1919,27 @@ Actions:
 - get_message: Get the most recent assistant message.
 - get_summary: Get a summary of activity since the last user prompt.
 - clear: Rewind session to initial state.
+- broadcast: Send 'message' to every live session whose name matches 'sessionName' as a glob (default: all other sessions). Returns one result per target, including failures.
 
 Target selection:
 - sessionId: UUID of the session.
-- sessionName: session name (alias from /name).
+- sessionName: session name (alias from /name). Names may contain "/" to form groups, e.g. "workers/1"; broadcast to "workers/*" reaches the whole group.
 
 Wait behavior (only for action=send):
 - wait_until=turn_end: Wait for the turn to complete, returns last assistant message.
 - wait_until=message_processed: Returns immediately after message is queued.
+- wait_until=reply: Wait for the target to answer with reply_to_session (implies expect_reply), returns the reply.
 
-Note: If you ask the target session to reply back via sender_info, do not use wait_until; waiting is redundant and can duplicate responses.
+Replies (only for action=send):
+- expect_reply=true opens a thread: the target answers with its reply_to_session tool and the reply arrives here as a session message tagged with the thread id.
+- Threads expire after reply_timeout seconds (default: 600); you are told when one does.
 
-Messages automatically include sender session info for replies. When you want a response, instruct the target session to reply directly to the sender by calling send_to_session with the sender_info reference (do not poll get_message).`,
+Messages automatically include sender session info. When you want a response, use expect_reply rather than asking the target to call send_to_session back (do not poll get_message).`,
 		parameters: Type.Object({
 			sessionId: Type.Optional(Type.String({ description: "Target session id (UUID)" })),
 			sessionName: Type.Optional(Type.String({ description: "Target session name (alias)" })),
 			action: Type.Optional(
-				StringEnum(["send", "get_message", "get_summary", "clear"] as const, {
+				StringEnum(["send", "get_message", "get_summary", "clear", "broadcast"] as const, {
 					description: "Action to perform (default: send)",
 					default: "send",
 				}),
@@ -1085,17 +1952,87 @@ Messages automatically include sender session info for replies. When you want a
 				}),
 			),
 			wait_until: Type.Optional(
-				StringEnum(["turn_end", "message_processed"] as const, {
-					description: "Wait behavior for send action",
+				StringEnum(["turn_end", "message_processed", "reply"] as const, {
+					description: "Wait behavior for send and broadcast actions (reply: send only)",
 				}),
 			),
+			expect_reply: Type.Optional(
+				Type.Boolean({ description: "Open a reply thread; the target answers with reply_to_session" }),
+			),
+			reply_timeout: Type.Optional(
+				Type.Number({ description: "Seconds before an expect_reply thread expires (default: 600)" }),
+			),
 		}),
-		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
+		async execute(_toolCallId, params, signal, _onUpdate, _ctx) {
 			const action = params.action ?? "send";
 			const sessionName = params.sessionName?.trim();
 			const sessionId = params.sessionId?.trim();
 			let targetSessionId: string | null = null;
 			const displayTarget = sessionName || sessionId || "";
+			const senderSessionId = state.context?.sessionManager.getSessionId();
+			const senderSessionName = state.context?.sessionManager.getSessionName()?.trim();
+			const senderInfo = buildSenderInfo(state);
+			const expectReply = params.expect_reply === true || params.wait_until === "reply";
+
+			if (expectReply && action !== "send") {
+				return {
+					content: [{ type: "text", text: "expect_reply and wait_until=reply require action=send" }],
+					isError: true,
+					details: { error: "expect_reply and wait_until=reply require action=send" },
+				};
+			}
+
+			if (action === "broadcast") {
+				if (!params.message || params.message.trim().length === 0) {
+					return {
+						content: [{ type: "text", text: "Missing message for broadcast action" }],
+						isError: true,
+						details: { error: "Missing message" },
+					};
+				}
+				const pattern = sessionName || "*";
+				const targets = (await getMatchingSessions(pattern)).filter(
+					(session) => session.sessionId !== senderSessionId,
+				);
+				if (targets.length === 0) {
+					return {
+						content: [{ type: "text", text: `No live sessions match "${pattern}"` }],
+						isError: true,
+						details: { error: `No live sessions match "${pattern}"` },
+					};
+				}
+				const waitForTurnEnd = params.wait_until === "turn_end";
+				const results = await broadcastRpcCommand(
+					targets,
+					{ type: "send", message: params.message + senderInfo, mode: params.mode ?? "steer" },
+					waitForTurnEnd ? { timeout: 300000, waitForEvent: "turn_end" } : {},
+				);
+				const failed = results.filter((result) => !result.success).length;
+				const lines = results.map((result) => {
+					const label = result.name ? `${result.name} (${result.sessionId})` : result.sessionId;
+					if (!result.success) return `✗ ${label}: ${result.error}`;
+					if (!waitForTurnEnd) return `✓ ${label}: delivered`;
+					return `✓ ${label}:\n${result.message?.content ?? "(no assistant message)"}`;
+				});
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Broadcast to ${results.length} sessions matching "${pattern}" (${failed} failed):\n${lines.join("\n")}`,
+						},
+					],
+					isError: failed === results.length,
+					details: { pattern, results },
+				};
+			}
+
+			if (sessionName && isGlobPattern(sessionName)) {
+				return {
+					content: [{ type: "text", text: "Session name patterns require action=broadcast" }],
+					isError: true,
+					details: { error: "Session name patterns require action=broadcast" },
+				};
+			}
 
 			if (sessionName) {
 				targetSessionId = await resolveSessionIdFromAlias(sessionName);
@@ -1135,7 +2072,6 @@ Messages automatically include sender session info for replies. When you want a
 			}
 
 			const socketPath = getSocketPath(targetSessionId);
-			const senderSessionId = state.context?.sessionManager.getSessionId();
 
 			try {
 				// Handle each action
@@ -1209,20 +2145,91 @@ Messages automatically include sender session info for replies. When you want a
 					};
 				}
 
-				const senderSessionName = state.context?.sessionManager.getSessionName()?.trim();
-				const senderInfo = senderSessionId
-					? `\n\n<sender_info>${JSON.stringify({
-						sessionId: senderSessionId,
-						sessionName: senderSessionName || undefined,
-					})}</sender_info>`
-					: "";
-
 				const sendCommand: RpcSendCommand = {
 					type: "send",
 					message: params.message + senderInfo,
 					mode: params.mode ?? "steer",
 				};
 
+				if (expectReply) {
+					if (!state.server || !senderSessionId) {
+						return {
+							content: [{ type: "text", text: "Replies need this session's control socket (use --session-control)" }],
+							isError: true,
+							details: { error: "Session control not enabled" },
+						};
+					}
+					const timeoutMs =
+						params.reply_timeout && params.reply_timeout > 0 ? params.reply_timeout * 1000 : DEFAULT_REPLY_TIMEOUT_MS;
+					const threadId = createThreadId();
+					// Register first so a fast reply cannot arrive before the thread exists.
+					const thread = openOutgoingThread(pi, state, {
+						threadId,
+						peerSessionId: targetSessionId,
+						peerName: sessionName || undefined,
+						message: params.message,
+						timeoutMs,
+					});
+					const threadCommand: RpcSendCommand = {
+						...sendCommand,
+						message: params.message + buildSenderInfo(state, threadId, true),
+						thread: {
+							id: threadId,
+							senderSessionId,
+							senderSessionName: senderSessionName || undefined,
+							timeoutMs,
+						},
+					};
+
+					let result: Awaited<ReturnType<typeof sendRpcCommand>>;
+					try {
+						result = await sendRpcCommand(socketPath, threadCommand);
+					} catch (error) {
+						removeThread(state, thread);
+						throw error;
+					}
+					if (!result.response.success) {
+						removeThread(state, thread);
+						return {
+							content: [{ type: "text", text: `Failed: ${result.response.error ?? "unknown error"}` }],
+							isError: true,
+							details: result,
+						};
+					}
+
+					if (params.wait_until !== "reply") {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Message sent to session ${displayTarget || targetSessionId} on thread ${threadId}; the reply will arrive as a session message`,
+								},
+							],
+							details: { ...(result.response.data as Record<string, unknown>), threadId },
+						};
+					}
+
+					const reply = await waitForThreadReply(thread, signal);
+					if (reply === null) {
+						const text =
+							thread.status === "timed_out"
+								? `No reply on thread ${threadId} within ${formatDuration(timeoutMs)}`
+								: thread.status === "closed"
+									? `Stopped waiting on thread ${threadId}: the control server shut down, so the reply will not be delivered`
+									: `Stopped waiting on thread ${threadId}; a reply will arrive as a session message`;
+						return {
+							content: [{ type: "text", text }],
+							isError: thread.status !== "open",
+							details: { threadId, status: thread.status },
+						};
+					}
+					const replyText = stripSenderInfo(reply);
+					return {
+						content: [{ type: "text", text: replyText }],
+						details: { threadId, message: { role: "assistant", content: replyText, timestamp: Date.now() } },
+					};
+				}
+
 				// Determine wait behavior
 				if (params.wait_until === "message_processed") {
 					// Just send and confirm delivery
@@ -1303,19 +2310,22 @@ Messages automatically include sender session info for replies. When you want a
 			header += theme.fg("accent", shortSessionRef);
 
 			// Add action-specific info
-			if (action === "send") {
+			if (action === "broadcast") {
+				header = theme.fg("toolTitle", theme.bold("→ broadcast ")) + theme.fg("accent", args.sessionName ?? "*");
+			} else if (action === "send") {
 				const mode = args.mode ?? "steer";
 				const wait = args.wait_until;
 				let info = theme.fg("muted", ` (${mode}`);
 				if (wait) info += theme.fg("dim", `, wait: ${wait}`);
+				if (args.expect_reply && wait !== "reply") info += theme.fg("dim", ", expect reply");
 				info += theme.fg("muted", ")");
 				header += info;
 			} else {
 				header += theme.fg("muted", ` (${action})`);
 			}
 
-			// For send action, show the message
-			if (action === "send" && args.message) {
+			// For send and broadcast actions, show the message
+			if ((action === "send" || action === "broadcast") && args.message) {
 				const msg = args.message;
 				const preview = msg.length > 80 ? msg.slice(0, 80) + "..." : msg;
 				// Handle multi-line messages
@@ -1335,6 +2345,26 @@ Messages automatically include sender session info for replies. When you want a
 			const details = result.details as Record<string, unknown> | undefined;
 			const isError = result.isError === true;
 
+			// broadcast result
+			if (details && Array.isArray(details.results)) {
+				const results = details.results as BroadcastResult[];
+				const failed = results.filter((r) => !r.success).length;
+				const icon = failed === results.length ? theme.fg("error", "✗") : theme.fg("success", "✓");
+				let text = icon + theme.fg("muted", ` Broadcast to ${results.length} sessions`);
+				if (failed) text += theme.fg("warning", ` (${failed} failed)`);
+				for (const r of results) {
+					const label = r.name ?? r.sessionId;
+					const line = r.success
+						? theme.fg("success", "  ✓ ") + theme.fg("muted", label)
+						: theme.fg("error", "  ✗ ") + theme.fg("muted", label) + theme.fg("error", ` ${r.error}`);
+					text += `\n${line}`;
+					if (expanded && r.message) {
+						text += "\n" + theme.fg("toolOutput", r.message.content.split("\n").map((l) => `    ${l}`).join("\n"));
+					}
+				}
+				return new Text(text, 0, 0);
+			}
+
 			// Error case
 			if (isError || details?.error) {
 				const errorMsg = (details?.error as string) || result.content[0]?.type === "text" ? (result.content[0] as { type: "text"; text: string }).text : "Unknown error";
@@ -1351,10 +2381,11 @@ Messages automatically include sender session info for replies. When you want a
 			if (hasMessage) {
 				const message = details.message as ExtractedMessage;
 				const icon = theme.fg("success", "✓");
+				const label = typeof details.threadId === "string" ? ` Reply on ${details.threadId}` : " Message received";
 
 				if (expanded) {
 					const container = new Container();
-					container.addChild(new Text(icon + theme.fg("muted", " Message received"), 0, 0));
+					container.addChild(new Text(icon + theme.fg("muted", label), 0, 0));
 					container.addChild(new Spacer(1));
 					container.addChild(new Markdown(message.content, 0, 0, getMarkdownTheme()));
 					if (hasTurnIndex) {
@@ -1369,7 +2400,7 @@ Messages automatically include sender session info for replies. When you want a
 					? message.content.slice(0, 200) + "..."
 					: message.content;
 				const lines = preview.split("\n").slice(0, 5);
-				let text = icon + theme.fg("muted", " Message received");
+				let text = icon + theme.fg("muted", label);
 				if (hasTurnIndex) text += theme.fg("dim", ` (turn #${details.turnIndex})`);
 				text += "\n" + theme.fg("toolOutput", lines.join("\n"));
 				if (message.content.split("\n").length > 5 || message.content.length > 200) {
@@ -1419,6 +2450,7 @@ Messages automatically include sender session info for replies. When you want a
 				const icon = theme.fg("success", "✓");
 				let text = icon + theme.fg("muted", " Message delivered");
 				if (mode) text += theme.fg("dim", ` (${mode})`);
+				if (typeof details.threadId === "string") text += theme.fg("dim", ` · thread ${details.threadId}`);
 				return new Text(text, 0, 0);
 			}
 
@@ -1430,6 +2462,66 @@ Messages automatically include sender session info for replies. When you want a
 	});
 }
 
+// ============================================================================
+// Tool: reply_to_session
+// ============================================================================
+
+function registerReplyTool(pi: ExtensionAPI, state: SocketState): void {
+	pi.registerTool({
+		name: "reply_to_session",
+		label: "Reply To Session",
+		description: `Answer a message from another pi session that expects a reply.
+
+Use this when a session message's sender_info has "expectsReply": true. Pass its threadId; the reply is routed back to the sender on that thread. Each thread takes one reply.`,
+		parameters: Type.Object({
+			thread_id: Type.String({ description: "threadId from the sender_info of the message being answered" }),
+			message: Type.String({ description: "Reply text" }),
+		}),
+		async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
+			const threadId = params.thread_id.trim();
+			const thread = state.threads.get(threadId);
+			const fail = (error: string) => ({
+				content: [{ type: "text" as const, text: error }],
+				isError: true,
+				details: { error },
+			});
+
+			if (!thread) {
+				return fail(`Unknown thread: ${threadId} (it may have been answered or expired)`);
+			}
+			if (thread.direction === "outgoing") {
+				return fail(`Thread ${threadId} was opened by this session; the peer answers it`);
+			}
+			if (params.message.trim().length === 0) {
+				return fail("Missing message");
+			}
+
+			const peer = thread.peerName ? `${thread.peerName} (${thread.peerSessionId})` : thread.peerSessionId;
+			try {
+				const result = await sendRpcCommand(getSocketPath(thread.peerSessionId), {
+					type: "send",
+					message: params.message + buildSenderInfo(state, threadId),
+					mode: "follow_up",
+					replyTo: threadId,
+				});
+				if (!result.response.success) {
+					return fail(`Failed: ${result.response.error ?? "unknown error"}`);
+				}
+				thread.status = "replied";
+				removeThread(state, thread);
+				const data = result.response.data as { mode?: string } | undefined;
+				return {
+					content: [{ type: "text", text: `Reply sent to ${peer} on thread ${threadId}` }],
+					details: { threadId, delivered: true, mode: data?.mode },
+				};
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error";
+				return fail(`Failed to reach ${peer}: ${message}`);
+			}
+		},
+	});
+}
+
 // ============================================================================
 // Tool: list_sessions
 // ============================================================================
@@ -1463,7 +2555,7 @@ function registerListSessionsTool(pi: ExtensionAPI): void {
 	});
 }
 
-function registerControlSessionsCommand(pi: ExtensionAPI): void {
+function registerControlSessionsCommand(pi: ExtensionAPI, state: SocketState): void {
 	pi.registerCommand("control-sessions", {
 		description: "List controllable sessions (from session-control sockets)",
 		handler: async (_args, ctx) => {
@@ -1481,10 +2573,18 @@ function registerControlSessionsCommand(pi: ExtensionAPI): void {
 				const current = session.sessionId === currentSessionId ? " (current)" : "";
 				return `- ${session.sessionId}${name}${current}`;
 			});
-			const content = sessions.length === 0
+			let content = sessions.length === 0
 				? "No live sessions found."
 				: `Controllable sessions:\n${lines.join("\n")}`;
 
+			const now = Date.now();
+			const openThreads = [...state.threads.values()]
+				.filter((thread) => thread.status === "open")
+				.sort((a, b) => a.createdAt - b.createdAt);
+			if (openThreads.length > 0) {
+				content += `\n\nOpen threads:\n${openThreads.map((thread) => formatThreadLine(thread, now)).join("\n")}`;
+			}
+
 			pi.sendMessage(
 				{
 					customType: "control-sessions",
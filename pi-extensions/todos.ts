@@ -5,7 +5,9 @@
  *
  * File format in .pi/todos:
  * - The file starts with a JSON object (not YAML) containing the front matter:
- *   { id, title, tags, status, created_at, assigned_to_session }
+ *   { id, title, tags, status, created_at, assigned_to_session, depends_on, blocks,
+ *     priority, due, estimate, github_issue, github_synced_at, closed_at, branch, close_on_merge,
+ *     claimed_at, time_spent_ms, agent_time_ms, cost_usd, tokens }
  * - After the JSON block comes optional markdown body text separated by a blank line.
  * - Example:
  *   {
@@ -14,28 +16,132 @@
  *     "tags": ["qa"],
  *     "status": "open",
  *     "created_at": "2026-01-25T17:00:00.000Z",
- *     "assigned_to_session": "session.json"
+ *     "assigned_to_session": "session.json",
+ *     "depends_on": ["cafebabe"],
+ *     "priority": "p1",
+ *     "due": "2026-02-01",
+ *     "estimate": "2h"
  *   }
  *
  *   Notes about the work go here.
  *
+ * `depends_on` lists todos that must be closed before this one is ready, and
+ * `blocks` lists todos that wait on this one.  Both sides are merged into a
+ * single dependency graph, so an edge only needs to be recorded once.
+ * `priority` is one of p0 (most urgent) to p3, `due` is a date (YYYY-MM-DD or
+ * ISO timestamp) and `estimate` is a duration such as "30m", "2h" or "1d4h".
+ * `github_issue` is the number of the GitHub issue the todo is synced with, and
+ * `github_synced_at` the issue's updatedAt as of the last sync.
+ * `closed_at` is stamped when a todo enters a terminal status and cleared when
+ * it is reopened.
+ *
+ * GitHub-style checklists (`- [ ] item` / `- [x] item`) in the body are treated
+ * as subtasks: their progress is shown next to the title and the `todo` tool
+ * can check or uncheck items without rewriting the body.
+ *
+ * Every change made through the extension is also recorded in an append-only
+ * <id>.history.jsonl file next to the todo.  Each line is a JSON object:
+ *   { "at": "<iso>", "session": "<session id>", "action": "update",
+ *     "changes": { "status": { "from": "open", "to": "closed" } } }
+ *
  * Todo storage settings are kept in <todo-dir>/settings.json.
  * Defaults:
  * {
- *   "gc": true,   // delete closed todos older than gcDays on startup
- *   "gcDays": 7   // age threshold for GC (days since created_at)
+ *   "gc": true,                  // archive closed todos older than gcDays on startup
+ *   "gcDays": 7,                 // age threshold for GC (days since closed_at)
+ *   "boardColumns": ["open", "in-progress", "blocked", "closed"],  // board view columns
+ *   "statuses": [],              // allowed statuses ([] accepts any status)
+ *   "terminalStatuses": ["closed", "done"],  // statuses that count as closed
+ *   "transitions": {}            // e.g. { "open": ["in-progress", "closed"] }
  * }
+ * Statuses without an entry in `transitions` may move to any allowed status.
+ * GC moves old closed todos (and their history) into <todo-dir>/archive instead
+ * of deleting them; browse them with `/todos archive` or the tool's
+ * `search-archive` action.
+ *
+ * `/todos export json|csv|md|summary [--by status|tag] [file]` writes todos out
+ * (md is a status report grouped by status or tag, summary a time and cost
+ * report) and
+ * `/todos import <file.json>` reads the JSON export back, assigning fresh ids
+ * when they collide with existing todos.  Session claims (and their running
+ * clock), issue and branch links are cleared, and dependencies on todos missing
+ * from the file are dropped.
+ *
+ * Lock files record the owning pid and host.  A lock whose process is gone is
+ * reclaimed immediately; `/todos locks` lists held locks (pid, session, age,
+ * liveness) and can force-release them.
+ *
+ * `/todos doctor` reports malformed front matter, duplicate or mismatched ids,
+ * statuses outside settings.json, orphaned locks and assignments to sessions
+ * that no longer exist, then offers to repair them (`--fix` skips the prompt).
+ *
+ * The tool's `plan` action turns a goal and a list of items into todos in one
+ * go: the items are created in dependency order under a parent todo that
+ * depends on all of them, and nothing is kept if any write fails.  In the TUI
+ * the user reviews the items first and can edit or drop them.
+ *
+ * Templates live in <todo-dir>/templates/<name>.md, using the same JSON front
+ * matter (title, tags, priority, estimate, description) plus a markdown body.
+ * `{{placeholder}}` fields are filled on create; `title`, `body` and `date` are
+ * always available.  Built-in bug/feature/refactor templates are used unless a
+ * file with the same name overrides them.  `/todos new` picks a template and
+ * asks for each of its placeholders; lines left empty are dropped.
+ *
+ * Claiming starts a clock (`claimed_at`) that is folded into `time_spent_ms` on
+ * release or close; agent turns that run while a todo is claimed by this
+ * session are added to `agent_time_ms`.  The assistant message usage of those
+ * turns is likewise added to `cost_usd` and `tokens`.  When several todos are
+ * claimed, each turn is split evenly between them so the totals still add up to
+ * what the session spent.  The usage is written back when the agent run ends,
+ * skipping todos another session has locked until the next run.  The cost is
+ * shown in the list and rolled up per tag in the summary export.
+ *
+ * Claiming a todo records the current git branch.  Commits whose message mentions
+ * TODO-<hex> are listed in the detail view, and the "close on merge" action sets
+ * `close_on_merge` so the todo is closed (checked on session start and when
+ * opening `/todos`) once such a commit is on the default branch.
+ *
+ * In a monorepo, <todo-dir> is .pi/todos of the nearest package (the closest
+ * directory up to the git root with todos or a package.json).  `/todos` also
+ * shows the todos of parent directories and workspace packages (package.json
+ * `workspaces` or pnpm-workspace.yaml) with a source column, and the `todo`
+ * tool takes a `scope` of package (default), repo or all.  The defaults differ
+ * on purpose: `/todos` is the overview for the user, while the agent stays on
+ * the package it works in unless asked for more.  Session start housekeeping
+ * (garbage collection, close on merge, the assignment watcher) covers all dirs.
+ * `/todos export`, `import`, `archive`, `locks` and `sync` work on the nearest
+ * package's dir only, the same one new todos are written to.
+ *
+ * The todo directory is watched: an open `/todos` view refreshes when other
+ * sessions change todos, and the status bar flags todos assigned to this
+ * session that another session claimed or closed.
  *
  * Use `/todos` to bring up the visual todo manager or just let the LLM use them
- * naturally.
+ * naturally.  `/todos sync` mirrors todos with the current repository's GitHub
+ * issues through the `gh` CLI: open issues are imported, new todos are pushed as
+ * issues, and title/status/labels of linked pairs are reconciled (the side that
+ * changed last wins).  `/todos board` (or Tab in the list) shows todos as columns
+ * by status; Shift+←/→ moves the selected todo to the neighbouring column.
+ * In the list, Space marks todos and Enter then offers bulk close, reopen,
+ * retag, release, delete or a single "work on all" prompt.
  */
-import { DynamicBorder, copyToClipboard, getMarkdownTheme, keyHint, type ExtensionAPI, type ExtensionContext, type Theme } from "@mariozechner/pi-coding-agent";
-import { StringEnum } from "@mariozechner/pi-ai";
+import {
+	DynamicBorder,
+	SessionManager,
+	copyToClipboard,
+	getMarkdownTheme,
+	keyHint,
+	type ExtensionAPI,
+	type ExtensionContext,
+	type Theme,
+} from "@mariozechner/pi-coding-agent";
+import { StringEnum, type Usage } from "@mariozechner/pi-ai";
 import { Type } from "@sinclair/typebox";
 import path from "node:path";
 import fs from "node:fs/promises";
-import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { type FSWatcher, existsSync, readFileSync, readdirSync, watch } from "node:fs";
 import crypto from "node:crypto";
+import os from "node:os";
 import {
 	Container,
 	type Focusable,
@@ -57,13 +163,42 @@ import {
 const TODO_DIR_NAME = ".pi/todos";
 const TODO_PATH_ENV = "PI_TODO_PATH";
 const TODO_SETTINGS_NAME = "settings.json";
+const TODO_HISTORY_SUFFIX = ".history.jsonl";
+const TODO_ARCHIVE_DIR_NAME = "archive";
+const TODO_TEMPLATES_DIR_NAME = "templates";
+const HISTORY_VALUE_MAX_LENGTH = 200;
 const TODO_ID_PREFIX = "TODO-";
 const TODO_ID_PATTERN = /^[a-f0-9]{8}$/i;
 const DEFAULT_TODO_SETTINGS = {
 	gc: true,
 	gcDays: 7,
+	boardColumns: ["open", "in-progress", "blocked", "closed"],
+	statuses: [] as string[],
+	terminalStatuses: ["closed", "done"],
+	transitions: {} as Record<string, string[]>,
 };
 const LOCK_TTL_MS = 30 * 60 * 1000;
+const TODO_WATCH_DEBOUNCE_MS = 200;
+const TODO_STATUS_KEY = "todos";
+const TODO_PRIORITIES = ["p0", "p1", "p2", "p3"] as const;
+const TODO_SUBCOMMANDS = [
+	{ name: "sync", description: "Sync this package's todos with GitHub issues via gh" },
+	{ name: "board", description: "Open todos as a board grouped by status" },
+	{ name: "archive", description: "Browse this package's archived todos" },
+	{ name: "export", description: "Export this package's todos: json|csv|md|summary [--by status|tag] [file]" },
+	{ name: "import", description: "Import todos from a JSON export file into this package" },
+	{ name: "locks", description: "Show this package's held todo locks and force-release them" },
+	{ name: "new", description: "Create a todo from a template" },
+	{ name: "doctor", description: "Check todo files for problems and repair them [--fix]" },
+];
+const DURATION_UNITS_MS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+type TodoPriority = (typeof TODO_PRIORITIES)[number];
 
 interface TodoFrontMatter {
 	id: string;
@@ -72,22 +207,153 @@ interface TodoFrontMatter {
 	status: string;
 	created_at: string;
 	assigned_to_session?: string;
+	depends_on?: string[];
+	blocks?: string[];
+	priority?: TodoPriority;
+	due?: string;
+	estimate?: string;
+	github_issue?: number;
+	/** Issue updatedAt seen by the last sync; a different value means the issue changed since. */
+	github_synced_at?: string;
+	closed_at?: string;
+	/** Git branch checked out when the todo was last claimed. */
+	branch?: string;
+	/** Close automatically once a commit mentioning the todo reaches the default branch. */
+	close_on_merge?: boolean;
+	/** Start of the current claim interval; cleared on release/close. */
+	claimed_at?: string;
+	/** Accumulated time from finished claim intervals. */
+	time_spent_ms?: number;
+	/** Accumulated agent turn time while the todo was claimed. */
+	agent_time_ms?: number;
+	/** Assistant usage cost (USD) accrued while the todo was claimed. */
+	cost_usd?: number;
+	/** Assistant usage tokens accrued while the todo was claimed. */
+	tokens?: number;
+	/** Derived from the body's checklist when listing; never persisted. */
+	checklist?: TodoChecklistProgress;
+	/** Package the todo was listed from when several todo dirs are in scope; never persisted. */
+	source?: string;
+}
+
+interface TodoChecklistProgress {
+	done: number;
+	total: number;
+}
+
+interface TodoChecklistItem {
+	index: number;
+	line: number;
+	checked: boolean;
+	text: string;
 }
 
 interface TodoRecord extends TodoFrontMatter {
 	body: string;
 }
 
+interface TodoCommit {
+	hash: string;
+	shortHash: string;
+	subject: string;
+	author: string;
+	date: string;
+}
+
+interface TodoCreateInput {
+	title: string;
+	tags?: string[];
+	status?: string;
+	body?: string;
+	depends_on?: string[];
+	blocks?: string[];
+	priority?: string;
+	due?: string;
+	estimate?: string;
+}
+
+interface TodoPlanItem {
+	title: string;
+	tags?: string[];
+	body?: string;
+	/** 1-based positions of other items in the same plan, or ids of existing todos. */
+	depends_on?: (number | string)[];
+}
+
+type TodoPlanReviewAction = { action: "confirm" } | { action: "cancel" } | { action: "edit"; index: number };
+
+interface TodoHistoryEntry {
+	at: string;
+	session: string | null;
+	action: string;
+	changes: Record<string, { from?: unknown; to?: unknown }>;
+}
+
+interface GitHubIssue {
+	number: number;
+	title: string;
+	state: string;
+	labels: string[];
+	body: string;
+	updatedAt: string;
+}
+
+interface TodoSyncSummary {
+	imported: string[];
+	pushed: string[];
+	pulled: string[];
+	updatedIssues: number[];
+	errors: string[];
+}
+
 interface LockInfo {
 	id: string;
 	pid: number;
+	hostname?: string;
 	session?: string | null;
 	created_at: string;
 }
 
+interface TodoLockStatus {
+	id: string;
+	lockPath: string;
+	info: LockInfo | null;
+	ageMs: number;
+	/** null when the owner runs on another host (or the lock is unreadable). */
+	alive: boolean | null;
+	title?: string;
+}
+
+type TodoDoctorIssueKind = "malformed" | "duplicate-id" | "invalid-status" | "orphan-lock" | "dead-session";
+
+interface TodoDoctorIssue {
+	kind: TodoDoctorIssueKind;
+	/** Todo id taken from the file name. */
+	id: string;
+	message: string;
+	/** What the automatic repair does; absent when the issue needs a human. */
+	repair?: string;
+}
+
 interface TodoSettings {
 	gc: boolean;
 	gcDays: number;
+	/** Statuses shown as columns in the `/todos` board view, left to right. */
+	boardColumns: string[];
+	/** Allowed statuses; empty means any status is accepted. */
+	statuses: string[];
+	/** Statuses that count as closed (GC, assignment release). */
+	terminalStatuses: string[];
+	/** Allowed next statuses keyed by current status; unlisted statuses may move anywhere. */
+	transitions: Record<string, string[]>;
+}
+
+type TodoScope = "package" | "repo" | "all";
+
+interface TodoSource {
+	dir: string;
+	/** Package path relative to the repository root ("." for the root). */
+	label: string;
 }
 
 const TodoParams = Type.Object({
@@ -101,17 +367,85 @@ const TodoParams = Type.Object({
 		"delete",
 		"claim",
 		"release",
+		"ready",
+		"history",
+		"check",
+		"uncheck",
+		"search-archive",
+		"plan",
 	] as const),
 	id: Type.Optional(
 		Type.String({ description: "Todo id (TODO-<hex> or raw hex filename)" }),
 	),
 	title: Type.Optional(Type.String({ description: "Short summary shown in lists" })),
-	status: Type.Optional(Type.String({ description: "Todo status" })),
+	status: Type.Optional(
+		Type.String({ description: "Todo status (may be restricted by the statuses/transitions in settings.json)" }),
+	),
 	tags: Type.Optional(Type.Array(Type.String({ description: "Todo tag" }))),
 	body: Type.Optional(
 		Type.String({ description: "Long-form details (markdown). Update replaces; append adds." }),
 	),
-	force: Type.Optional(Type.Boolean({ description: "Override another session's assignment" })),
+	template: Type.Optional(
+		Type.String({ description: "Template for create (bug, feature, refactor or a file in templates/)" }),
+	),
+	template_fields: Type.Optional(
+		Type.Record(Type.String(), Type.String(), {
+			description: "Values for {{placeholders}} in the template (title, body and date are filled automatically)",
+		}),
+	),
+	depends_on: Type.Optional(
+		Type.Array(Type.String({ description: "Todo id this todo depends on (TODO-<hex>)" })),
+	),
+	blocks: Type.Optional(
+		Type.Array(Type.String({ description: "Todo id that depends on this todo (TODO-<hex>)" })),
+	),
+	priority: Type.Optional(
+		Type.String({ description: "Priority p0 (most urgent) to p3; empty string clears" }),
+	),
+	due: Type.Optional(
+		Type.String({ description: "Due date (YYYY-MM-DD or ISO timestamp); empty string clears" }),
+	),
+	estimate: Type.Optional(
+		Type.String({ description: "Effort estimate such as 30m, 2h or 1d4h; empty string clears" }),
+	),
+	force: Type.Optional(
+		Type.Boolean({ description: "Override another session's assignment or unresolved dependencies" }),
+	),
+	query: Type.Optional(
+		Type.String({
+			description:
+				"Filter for list/list-all/ready, e.g. 'status:open tag:api assignee:me created:>7d title:\"login\" body:crash priority:<=p1 due:<7d'. Other words match fuzzily.",
+		}),
+	),
+	goal: Type.Optional(Type.String({ description: "Goal for plan; becomes the parent todo's title" })),
+	items: Type.Optional(
+		Type.Array(
+			Type.Object({
+				title: Type.String({ description: "Short summary of the step" }),
+				tags: Type.Optional(Type.Array(Type.String({ description: "Todo tag" }))),
+				body: Type.Optional(Type.String({ description: "Long-form details (markdown)" })),
+				depends_on: Type.Optional(
+					Type.Array(Type.Union([Type.Number(), Type.String()]), {
+						description: "1-based positions of other items in this plan, or existing todo ids (TODO-<hex>)",
+					}),
+				),
+			}),
+			{ description: "Steps for plan, created as todos the parent depends on" },
+		),
+	),
+	item: Type.Optional(
+		Type.Union([Type.Number(), Type.String()], {
+			description: "Checklist item for check/uncheck: 1-based index or (part of) the item text",
+		}),
+	),
+	limit: Type.Optional(Type.Number({ description: "Maximum number of todos returned by list actions" })),
+	offset: Type.Optional(Type.Number({ description: "Number of matching todos to skip (for paging)" })),
+	scope: Type.Optional(
+		StringEnum(["package", "repo", "all"] as const, {
+			description:
+				"Todo dirs to use: the nearest package (default), the repository root, or every package in the repo",
+		}),
+	),
 });
 
 type TodoAction =
@@ -123,7 +457,13 @@ type TodoAction =
 	| "append"
 	| "delete"
 	| "claim"
-	| "release";
+	| "release"
+	| "ready"
+	| "history"
+	| "check"
+	| "uncheck"
+	| "search-archive"
+	| "plan";
 
 type TodoOverlayAction = "back" | "work";
 
@@ -136,15 +476,31 @@ type TodoMenuAction =
 	| "delete"
 	| "copyPath"
 	| "copyText"
+	| "priority"
+	| "due"
+	| "estimate"
+	| "closeOnMerge"
 	| "view";
 
-type TodoToolDetails =
-	| { action: "list" | "list-all"; todos: TodoFrontMatter[]; currentSessionId?: string; error?: string }
+type TodoBulkAction = "work" | "close" | "reopen" | "retag" | "release" | "delete";
+
+/** Terminal statuses are resolved in execute so rendering never touches disk. */
+type TodoToolDetails = { terminalStatuses?: string[] } & (
+	| {
+			action: "list" | "list-all" | "ready" | "search-archive";
+			todos: TodoFrontMatter[];
+			currentSessionId?: string;
+			total?: number;
+			error?: string;
+		}
 	| {
-			action: "get" | "create" | "update" | "append" | "delete" | "claim" | "release";
+			action: "get" | "create" | "update" | "append" | "delete" | "claim" | "release" | "check" | "uncheck";
 			todo: TodoRecord;
 			error?: string;
-		};
+		}
+	| { action: "history"; todo: TodoRecord; history: TodoHistoryEntry[]; error?: string }
+	| { action: "plan"; todo?: TodoRecord; todos: TodoRecord[]; error?: string }
+);
 
 function formatTodoId(id: string): string {
 	return `${TODO_ID_PREFIX}${id}`;
@@ -173,24 +529,196 @@ function displayTodoId(id: string): string {
 	return formatTodoId(normalizeTodoId(id));
 }
 
-function isTodoClosed(status: string): boolean {
-	return ["closed", "done"].includes(status.toLowerCase());
+function isTodoClosed(status: string, terminalStatuses: readonly string[]): boolean {
+	const normalized = status.toLowerCase();
+	return terminalStatuses.some((terminal) => terminal.toLowerCase() === normalized);
+}
+
+function startTodoClock(todo: TodoFrontMatter, now = Date.now()): void {
+	if (!todo.claimed_at) todo.claimed_at = new Date(now).toISOString();
+}
+
+function stopTodoClock(todo: TodoFrontMatter, now = Date.now()): void {
+	if (!todo.claimed_at) return;
+	const startedAt = Date.parse(todo.claimed_at);
+	if (Number.isFinite(startedAt) && now > startedAt) {
+		todo.time_spent_ms = (todo.time_spent_ms ?? 0) + (now - startedAt);
+	}
+	todo.claimed_at = undefined;
+}
+
+function getTodoTimeSpentMs(todo: TodoFrontMatter, now = Date.now()): number {
+	const startedAt = todo.claimed_at ? Date.parse(todo.claimed_at) : NaN;
+	const running = Number.isFinite(startedAt) ? Math.max(0, now - startedAt) : 0;
+	return (todo.time_spent_ms ?? 0) + running;
+}
+
+function formatDurationMs(ms: number): string {
+	const minutes = Math.round(ms / 60000);
+	if (minutes < 1) return ms > 0 ? "<1m" : "0m";
+	const days = Math.floor(minutes / (24 * 60));
+	const hours = Math.floor((minutes % (24 * 60)) / 60);
+	const rest = minutes % 60;
+	const parts = [days ? `${days}d` : "", hours ? `${hours}h` : "", rest ? `${rest}m` : ""].filter(Boolean);
+	return parts.join(" ");
+}
+
+function getUsageCost(usage: Usage | undefined): number {
+	const total = usage?.cost?.total ?? 0;
+	return Number.isFinite(total) && total > 0 ? total : 0;
+}
+
+function getUsageTokens(usage: Usage | undefined): number {
+	if (!usage) return 0;
+	const total = usage.totalTokens || usage.input + usage.output;
+	return Number.isFinite(total) && total > 0 ? total : 0;
+}
+
+function formatUsd(cost: number): string {
+	if (!Number.isFinite(cost)) return "$0.00";
+	if (cost >= 1) return `$${cost.toFixed(2)}`;
+	if (cost >= 0.1) return `$${cost.toFixed(3)}`;
+	return `$${cost.toFixed(4)}`;
 }
 
-function clearAssignmentIfClosed(todo: TodoFrontMatter): void {
-	if (isTodoClosed(getTodoStatus(todo))) {
+function applyClosedState(todo: TodoFrontMatter, terminalStatuses: readonly string[]): void {
+	if (isTodoClosed(getTodoStatus(todo), terminalStatuses)) {
+		stopTodoClock(todo);
 		todo.assigned_to_session = undefined;
+		todo.closed_at ??= new Date().toISOString();
+	} else {
+		todo.closed_at = undefined;
+	}
+}
+
+function normalizeTodoPriority(value: string): TodoPriority | null {
+	const trimmed = value.trim().toLowerCase();
+	const candidate = /^\d$/.test(trimmed) ? `p${trimmed}` : trimmed;
+	return TODO_PRIORITIES.find((priority) => priority === candidate) ?? null;
+}
+
+function getPriorityRank(todo: TodoFrontMatter): number {
+	return todo.priority ? TODO_PRIORITIES.indexOf(todo.priority) : TODO_PRIORITIES.length;
+}
+
+function parseDurationMs(value: string): number | null {
+	const trimmed = value.trim().toLowerCase().replace(/\s+/g, "");
+	if (!/^(\d+(\.\d+)?[mhdw])+$/.test(trimmed)) return null;
+	let total = 0;
+	for (const match of trimmed.matchAll(/(\d+(?:\.\d+)?)([mhdw])/g)) {
+		total += Number(match[1]) * DURATION_UNITS_MS[match[2]];
+	}
+	return total;
+}
+
+function normalizeTodoEstimate(value: string): string | null {
+	const trimmed = value.trim().toLowerCase().replace(/\s+/g, "");
+	return parseDurationMs(trimmed) === null ? null : trimmed;
+}
+
+function normalizeTodoDue(value: string): string | null {
+	const trimmed = value.trim();
+	return Number.isFinite(Date.parse(trimmed)) ? trimmed : null;
+}
+
+function getDueTime(todo: TodoFrontMatter): number | null {
+	if (!todo.due) return null;
+	const time = Date.parse(todo.due);
+	return Number.isFinite(time) ? time : null;
+}
+
+function isTodoOverdue(todo: TodoFrontMatter, terminalStatuses: readonly string[]): boolean {
+	const due = getDueTime(todo);
+	return due !== null && due < Date.now() && !isTodoClosed(getTodoStatus(todo), terminalStatuses);
+}
+
+/**
+ * Applies priority/due/estimate edits.  An empty string clears the field,
+ * undefined leaves it untouched.
+ */
+function applyTodoPlanningFields(
+	todo: TodoFrontMatter,
+	fields: { priority?: string; due?: string; estimate?: string },
+): { error: string } | null {
+	if (fields.priority !== undefined) {
+		if (!fields.priority.trim()) {
+			todo.priority = undefined;
+		} else {
+			const priority = normalizeTodoPriority(fields.priority);
+			if (!priority) {
+				return { error: `Invalid priority ${JSON.stringify(fields.priority)}. Expected one of ${TODO_PRIORITIES.join(", ")}.` };
+			}
+			todo.priority = priority;
+		}
+	}
+	if (fields.due !== undefined) {
+		if (!fields.due.trim()) {
+			todo.due = undefined;
+		} else {
+			const due = normalizeTodoDue(fields.due);
+			if (!due) {
+				return { error: `Invalid due date ${JSON.stringify(fields.due)}. Expected YYYY-MM-DD or an ISO timestamp.` };
+			}
+			todo.due = due;
+		}
+	}
+	if (fields.estimate !== undefined) {
+		if (!fields.estimate.trim()) {
+			todo.estimate = undefined;
+		} else {
+			const estimate = normalizeTodoEstimate(fields.estimate);
+			if (!estimate) {
+				return { error: `Invalid estimate ${JSON.stringify(fields.estimate)}. Expected a duration such as 30m, 2h or 1d4h.` };
+			}
+			todo.estimate = estimate;
+		}
+	}
+	return null;
+}
+
+function compareTodoUrgency(a: TodoFrontMatter, b: TodoFrontMatter): number {
+	const priorityDelta = getPriorityRank(a) - getPriorityRank(b);
+	if (priorityDelta !== 0) return priorityDelta;
+	const aDue = getDueTime(a);
+	const bDue = getDueTime(b);
+	if (aDue !== bDue) {
+		if (aDue === null) return 1;
+		if (bDue === null) return -1;
+		return aDue - bDue;
+	}
+	return 0;
+}
+
+function groupTodosIntoColumns<T extends TodoFrontMatter>(
+	todos: T[],
+	columns: string[],
+	terminalStatuses: readonly string[],
+): T[][] {
+	const grouped: T[][] = columns.map(() => []);
+	if (!columns.length) return grouped;
+	const lowered = columns.map((column) => column.toLowerCase());
+	// Statuses without a column of their own land in the first closed-looking
+	// column when closed, otherwise in the leftmost column.
+	const closedColumn = lowered.findIndex((column) => isTodoClosed(column, terminalStatuses));
+	for (const todo of todos) {
+		const status = getTodoStatus(todo).toLowerCase();
+		let index = lowered.indexOf(status);
+		if (index === -1) index = isTodoClosed(status, terminalStatuses) && closedColumn !== -1 ? closedColumn : 0;
+		grouped[index].push(todo);
 	}
+	return grouped.map((column) => sortTodos(column, terminalStatuses));
 }
 
-function sortTodos(todos: TodoFrontMatter[]): TodoFrontMatter[] {
+function sortTodos<T extends TodoFrontMatter>(todos: T[], terminalStatuses: readonly string[]): T[] {
 	return [...todos].sort((a, b) => {
-		const aClosed = isTodoClosed(a.status);
-		const bClosed = isTodoClosed(b.status);
+		const aClosed = isTodoClosed(getTodoStatus(a), terminalStatuses);
+		const bClosed = isTodoClosed(getTodoStatus(b), terminalStatuses);
 		if (aClosed !== bClosed) return aClosed ? 1 : -1;
 		const aAssigned = !aClosed && Boolean(a.assigned_to_session);
 		const bAssigned = !bClosed && Boolean(b.assigned_to_session);
 		if (aAssigned !== bAssigned) return aAssigned ? -1 : 1;
+		const urgency = compareTodoUrgency(a, b);
+		if (urgency !== 0) return urgency;
 		return (a.created_at || "").localeCompare(b.created_at || "");
 	});
 }
@@ -201,19 +729,274 @@ function buildTodoSearchText(todo: TodoFrontMatter): string {
 	return `${formatTodoId(todo.id)} ${todo.id} ${todo.title} ${tags} ${todo.status} ${assignment}`.trim();
 }
 
-function filterTodos(todos: TodoFrontMatter[], query: string): TodoFrontMatter[] {
+const CHECKLIST_ITEM_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/;
+
+function parseTodoChecklist(body: string): TodoChecklistItem[] {
+	const items: TodoChecklistItem[] = [];
+	let inFence = false;
+	body.split("\n").forEach((line, lineIndex) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return;
+		}
+		if (inFence) return;
+		const match = line.match(CHECKLIST_ITEM_PATTERN);
+		if (!match) return;
+		items.push({
+			index: items.length + 1,
+			line: lineIndex,
+			checked: match[2] !== " ",
+			text: match[4].trim(),
+		});
+	});
+	return items;
+}
+
+function summarizeChecklist(body: string): TodoChecklistProgress | undefined {
+	const items = parseTodoChecklist(body);
+	if (!items.length) return undefined;
+	return { done: items.filter((item) => item.checked).length, total: items.length };
+}
+
+function getChecklistProgress(todo: TodoFrontMatter & { body?: string }): TodoChecklistProgress | undefined {
+	return typeof todo.body === "string" ? summarizeChecklist(todo.body) : todo.checklist;
+}
+
+function resolveChecklistItem(
+	items: TodoChecklistItem[],
+	item: number | string,
+): TodoChecklistItem | { error: string } {
+	if (!items.length) return { error: "Todo has no checklist items" };
+	const available = items.map((entry) => `${entry.index}. ${entry.text}`).join("; ");
+	const asIndex = typeof item === "number" ? item : /^\s*\d+\s*$/.test(item) ? Number(item) : null;
+	if (asIndex !== null) {
+		const found = items.find((entry) => entry.index === asIndex);
+		return found ?? { error: `Checklist item ${asIndex} not found. Items: ${available}` };
+	}
+	const needle = String(item).trim().toLowerCase();
+	const exact = items.filter((entry) => entry.text.toLowerCase() === needle);
+	const matches = exact.length ? exact : items.filter((entry) => entry.text.toLowerCase().includes(needle));
+	if (matches.length === 1) return matches[0];
+	if (!matches.length) return { error: `No checklist item matches "${item}". Items: ${available}` };
+	return {
+		error: `Checklist item "${item}" is ambiguous (matches ${matches.map((entry) => entry.index).join(", ")}). Use an index.`,
+	};
+}
+
+function setChecklistItemState(body: string, item: TodoChecklistItem, checked: boolean): string {
+	const lines = body.split("\n");
+	lines[item.line] = lines[item.line].replace(CHECKLIST_ITEM_PATTERN, (_match, head, _mark, tail, text) =>
+		`${head}${checked ? "x" : " "}${tail}${text}`,
+	);
+	return lines.join("\n");
+}
+
+function formatChecklistProgress(progress: TodoChecklistProgress | undefined): string {
+	return progress ? ` ${progress.done}/${progress.total}` : "";
+}
+
+type TodoComparison = "<" | "<=" | ">" | ">=" | "=";
+
+function splitComparison(value: string): { op: TodoComparison; operand: string } {
+	const match = value.match(/^(<=|>=|<|>|=)?(.*)$/);
+	return { op: (match?.[1] as TodoComparison | undefined) ?? "=", operand: match?.[2] ?? "" };
+}
+
+function compareValues(op: TodoComparison, left: number, right: number): boolean {
+	switch (op) {
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+		case ">":
+			return left > right;
+		case ">=":
+			return left >= right;
+		case "=":
+			return left === right;
+	}
+}
+
+/**
+ * Resolves a due filter operand: relative durations ("7d", "2w") count from
+ * now, anything else must be a parseable date.
+ */
+function parseDueOperand(operand: string): number | null {
+	const relative = parseDurationMs(operand);
+	if (relative !== null) return Date.now() + relative;
+	const absolute = Date.parse(operand);
+	return Number.isFinite(absolute) ? absolute : null;
+}
+
+/**
+ * Resolves a created filter operand: relative durations ("7d", "2w") count
+ * back from now, anything else must be a parseable date.
+ */
+function parseCreatedOperand(operand: string): number | null {
+	const relative = parseDurationMs(operand);
+	if (relative !== null) return Date.now() - relative;
+	const absolute = Date.parse(operand);
+	return Number.isFinite(absolute) ? absolute : null;
+}
+
+type TodoQueryPredicate = (todo: TodoFrontMatter & { body?: string }) => boolean;
+
+const TODO_QUERY_FIELDS = [
+	"status",
+	"tag",
+	"assignee",
+	"created",
+	"title",
+	"body",
+	"priority",
+	"due",
+	"estimate",
+] as const;
+
+function parseTodoFieldPredicate(
+	field: string,
+	value: string,
+	terminalStatuses: readonly string[],
+	currentSessionId?: string,
+): TodoQueryPredicate | null {
+	const { op, operand } = splitComparison(value);
+	switch (field) {
+		case "status": {
+			const statuses = operand.toLowerCase().split(",").filter(Boolean);
+			if (!statuses.length) return null;
+			return (todo) => statuses.includes(getTodoStatus(todo).toLowerCase());
+		}
+		case "assignee": {
+			if (operand === "none") return (todo) => !todo.assigned_to_session;
+			if (operand === "any") return (todo) => Boolean(todo.assigned_to_session);
+			const session = operand === "me" ? currentSessionId : operand;
+			if (!session) return null;
+			return (todo) => todo.assigned_to_session === session;
+		}
+		case "created": {
+			if (op === "=") return null;
+			const threshold = parseCreatedOperand(operand);
+			if (threshold === null) return null;
+			return (todo) => {
+				const createdAt = Date.parse(todo.created_at);
+				return Number.isFinite(createdAt) && compareValues(op, createdAt, threshold);
+			};
+		}
+		case "title": {
+			const needle = operand.toLowerCase();
+			if (!needle) return null;
+			return (todo) => todo.title.toLowerCase().includes(needle);
+		}
+		case "body": {
+			const needle = operand.toLowerCase();
+			if (!needle) return null;
+			return (todo) => (todo.body ?? "").toLowerCase().includes(needle);
+		}
+		case "tag": {
+			const tags = operand.toLowerCase().split(",").filter(Boolean);
+			if (!tags.length) return null;
+			return (todo) => todo.tags.some((tag) => tags.includes(tag.toLowerCase()));
+		}
+		case "priority": {
+			if (operand === "none") return (todo) => !todo.priority;
+			const priorities = operand.split(",").map(normalizeTodoPriority);
+			if (!priorities.length || priorities.some((priority) => !priority)) return null;
+			if (op === "=") return (todo) => Boolean(todo.priority && priorities.includes(todo.priority));
+			const rank = TODO_PRIORITIES.indexOf(priorities[0]!);
+			return (todo) => Boolean(todo.priority) && compareValues(op, getPriorityRank(todo), rank);
+		}
+		case "due": {
+			if (operand === "none") return (todo) => !todo.due;
+			if (operand === "overdue") return (todo) => isTodoOverdue(todo, terminalStatuses);
+			const threshold = parseDueOperand(operand);
+			if (threshold === null) return null;
+			return (todo) => {
+				const due = getDueTime(todo);
+				return due !== null && compareValues(op, due, threshold);
+			};
+		}
+		case "estimate": {
+			if (operand === "none") return (todo) => !todo.estimate;
+			const threshold = parseDurationMs(operand);
+			if (threshold === null) return null;
+			return (todo) => {
+				const estimate = todo.estimate ? parseDurationMs(todo.estimate) : null;
+				return estimate !== null && compareValues(op, estimate, threshold);
+			};
+		}
+		default:
+			return null;
+	}
+}
+
+function tokenizeTodoQuery(query: string): string[] {
+	const tokens: string[] = [];
+	for (const match of query.matchAll(/([^\s"]*)"([^"]*)"?|(\S+)/g)) {
+		tokens.push(match[3] ?? `${match[1]}${match[2]}`);
+	}
+	return tokens.filter(Boolean);
+}
+
+/**
+ * Parses the todo query language shared by the `/todos` search box and the
+ * `todo` tool's list actions.  Field predicates look like `field:value` with
+ * optional comparison operators and comma separated alternatives:
+ *
+ *   status:open,blocked  tag:api  assignee:me|none|any|<session>
+ *   created:>7d  created:<2026-01-01  title:"login page"  body:stacktrace
+ *   priority:p0  priority:<=p1  due:<7d  due:overdue  estimate:<2h
+ *
+ * Everything else is free text matched fuzzily against id, title, tags and
+ * status.  Tokens that name a known field but fail to parse are reported in
+ * `invalid` (and still used as free text so partial input keeps filtering).
+ */
+function parseTodoQuery(
+	query: string,
+	terminalStatuses: readonly string[],
+	currentSessionId?: string,
+): {
+	predicates: TodoQueryPredicate[];
+	terms: string[];
+	invalid: string[];
+	usesBody: boolean;
+} {
+	const predicates: TodoQueryPredicate[] = [];
+	const terms: string[] = [];
+	const invalid: string[] = [];
+	let usesBody = false;
+	for (const token of tokenizeTodoQuery(query.trim())) {
+		const fieldMatch = token.match(/^([a-z_]+):(.+)$/is);
+		const field = fieldMatch?.[1].toLowerCase();
+		const predicate = fieldMatch ? parseTodoFieldPredicate(field!, fieldMatch[2], terminalStatuses, currentSessionId) : null;
+		if (predicate) {
+			predicates.push(predicate);
+			if (field === "body") usesBody = true;
+			continue;
+		}
+		if (field && (TODO_QUERY_FIELDS as readonly string[]).includes(field)) {
+			invalid.push(token);
+		}
+		terms.push(token);
+	}
+	return { predicates, terms, invalid, usesBody };
+}
+
+function filterTodos<T extends TodoFrontMatter>(
+	todos: T[],
+	query: string,
+	terminalStatuses: readonly string[],
+	currentSessionId?: string,
+): T[] {
 	const trimmed = query.trim();
 	if (!trimmed) return todos;
 
-	const tokens = trimmed
-		.split(/\s+/)
-		.map((token) => token.trim())
-		.filter(Boolean);
+	const { predicates, terms: tokens } = parseTodoQuery(trimmed, terminalStatuses, currentSessionId);
+	const candidates = todos.filter((todo) => predicates.every((predicate) => predicate(todo)));
 
-	if (tokens.length === 0) return todos;
+	if (tokens.length === 0) return candidates;
 
-	const matches: Array<{ todo: TodoFrontMatter; score: number }> = [];
-	for (const todo of todos) {
+	const matches: Array<{ todo: T; score: number }> = [];
+	for (const todo of candidates) {
 		const text = buildTodoSearchText(todo);
 		let totalScore = 0;
 		let matched = true;
@@ -232,8 +1015,8 @@ function filterTodos(todos: TodoFrontMatter[], query: string): TodoFrontMatter[]
 
 	return matches
 		.sort((a, b) => {
-			const aClosed = isTodoClosed(a.todo.status);
-			const bClosed = isTodoClosed(b.todo.status);
+			const aClosed = isTodoClosed(getTodoStatus(a.todo), terminalStatuses);
+			const bClosed = isTodoClosed(getTodoStatus(b.todo), terminalStatuses);
 			if (aClosed !== bClosed) return aClosed ? 1 : -1;
 			const aAssigned = !aClosed && Boolean(a.todo.assigned_to_session);
 			const bAssigned = !bClosed && Boolean(b.todo.assigned_to_session);
@@ -243,12 +1026,133 @@ function filterTodos(todos: TodoFrontMatter[], query: string): TodoFrontMatter[]
 		.map((match) => match.todo);
 }
 
+function normalizeTodoIdList(ids: unknown[]): string[] {
+	const normalized: string[] = [];
+	for (const id of ids) {
+		if (typeof id !== "string") continue;
+		const validated = validateTodoId(id);
+		if ("error" in validated) continue;
+		if (!normalized.includes(validated.id)) normalized.push(validated.id);
+	}
+	return normalized;
+}
+
+function resolveTodoIdList(ids: string[]): { ids: string[] } | { error: string } {
+	const resolved: string[] = [];
+	for (const id of ids) {
+		const validated = validateTodoId(id);
+		if ("error" in validated) {
+			return { error: `${validated.error} (got ${JSON.stringify(id)})` };
+		}
+		if (!resolved.includes(validated.id)) resolved.push(validated.id);
+	}
+	return { ids: resolved };
+}
+
+function buildDependencyGraph(todos: TodoFrontMatter[]): Map<string, Set<string>> {
+	const graph = new Map<string, Set<string>>();
+	const addEdge = (from: string, to: string) => {
+		const edges = graph.get(from);
+		if (edges) {
+			edges.add(to);
+		} else {
+			graph.set(from, new Set([to]));
+		}
+	};
+	for (const todo of todos) {
+		for (const dependency of todo.depends_on ?? []) addEdge(todo.id, dependency);
+		for (const blocked of todo.blocks ?? []) addEdge(blocked, todo.id);
+	}
+	return graph;
+}
+
+function findDependencyCycle(graph: Map<string, Set<string>>, startId: string): string[] | null {
+	const visited = new Set<string>();
+	const walk = (id: string, trail: string[]): string[] | null => {
+		for (const next of graph.get(id) ?? []) {
+			if (next === startId) return [...trail, next];
+			if (visited.has(next)) continue;
+			visited.add(next);
+			const cycle = walk(next, [...trail, next]);
+			if (cycle) return cycle;
+		}
+		return null;
+	};
+	return walk(startId, [startId]);
+}
+
+function getUnresolvedDependencies(
+	todo: TodoFrontMatter,
+	todos: TodoFrontMatter[],
+	terminalStatuses: readonly string[],
+): TodoFrontMatter[] {
+	const graph = buildDependencyGraph(todos);
+	const byId = new Map(todos.map((entry) => [entry.id, entry]));
+	const unresolved: TodoFrontMatter[] = [];
+	for (const dependencyId of graph.get(todo.id) ?? []) {
+		// Missing dependencies were deleted or garbage collected, which only happens once closed.
+		const dependency = byId.get(dependencyId);
+		if (dependency && !isTodoClosed(getTodoStatus(dependency), terminalStatuses)) {
+			unresolved.push(dependency);
+		}
+	}
+	return unresolved;
+}
+
+function getReadyTodos(todos: TodoFrontMatter[], terminalStatuses: readonly string[]): TodoFrontMatter[] {
+	return todos.filter(
+		(todo) =>
+			!isTodoClosed(getTodoStatus(todo), terminalStatuses) &&
+			getUnresolvedDependencies(todo, todos, terminalStatuses).length === 0,
+	);
+}
+
+function getTodoDependencyView(
+	todo: TodoFrontMatter,
+	todos: TodoFrontMatter[],
+): { dependsOn: TodoFrontMatter[]; blocks: TodoFrontMatter[] } {
+	const graph = buildDependencyGraph(todos);
+	const byId = new Map(todos.map((entry) => [entry.id, entry]));
+	const dependsOn = [...(graph.get(todo.id) ?? [])]
+		.map((id) => byId.get(id))
+		.filter((entry): entry is TodoFrontMatter => Boolean(entry));
+	const blocks = todos.filter((entry) => graph.get(entry.id)?.has(todo.id));
+	return { dependsOn, blocks };
+}
+
+/**
+ * Checks that the dependency edges of `candidate` reference existing todos and
+ * don't introduce a cycle once merged with the rest of the graph.
+ */
+function validateTodoDependencies(
+	candidate: TodoFrontMatter,
+	todos: TodoFrontMatter[],
+): { error: string } | null {
+	const known = new Set(todos.map((todo) => todo.id));
+	for (const id of [...(candidate.depends_on ?? []), ...(candidate.blocks ?? [])]) {
+		if (id === candidate.id) {
+			return { error: `Todo ${displayTodoId(id)} cannot depend on itself` };
+		}
+		if (!known.has(id)) {
+			return { error: `Dependency ${displayTodoId(id)} not found` };
+		}
+	}
+	const merged = [...todos.filter((todo) => todo.id !== candidate.id), candidate];
+	const cycle = findDependencyCycle(buildDependencyGraph(merged), candidate.id);
+	if (cycle) {
+		return { error: `Dependency cycle detected: ${cycle.map(formatTodoId).join(" -> ")}` };
+	}
+	return null;
+}
+
 class TodoSelectorComponent extends Container implements Focusable {
 	private searchInput: Input;
 	private listContainer: Container;
 	private allTodos: TodoFrontMatter[];
 	private filteredTodos: TodoFrontMatter[];
 	private selectedIndex = 0;
+	/** Keyed by source label and id, since packages can reuse ids. */
+	private marked = new Set<string>();
 	private onSelectCallback: (todo: TodoFrontMatter) => void;
 	private onCancelCallback: () => void;
 	private tui: TUI;
@@ -256,6 +1160,7 @@ class TodoSelectorComponent extends Container implements Focusable {
 	private headerText: Text;
 	private hintText: Text;
 	private currentSessionId?: string;
+	private terminalStatuses: readonly string[];
 
 	private _focused = false;
 	get focused(): boolean {
@@ -270,16 +1175,20 @@ class TodoSelectorComponent extends Container implements Focusable {
 		tui: TUI,
 		theme: Theme,
 		todos: TodoFrontMatter[],
+		terminalStatuses: readonly string[],
 		onSelect: (todo: TodoFrontMatter) => void,
 		onCancel: () => void,
 		initialSearchInput?: string,
 		currentSessionId?: string,
 		private onQuickAction?: (todo: TodoFrontMatter, action: "work" | "refine") => void,
+		private onToggleView?: () => void,
+		private onBulkSelect?: (todos: TodoFrontMatter[]) => void,
 	) {
 		super();
 		this.tui = tui;
 		this.theme = theme;
 		this.currentSessionId = currentSessionId;
+		this.terminalStatuses = terminalStatuses;
 		this.allTodos = todos;
 		this.filteredTodos = todos;
 		this.onSelectCallback = onSelect;
@@ -296,10 +1205,7 @@ class TodoSelectorComponent extends Container implements Focusable {
 		if (initialSearchInput) {
 			this.searchInput.setValue(initialSearchInput);
 		}
-		this.searchInput.onSubmit = () => {
-			const selected = this.filteredTodos[this.selectedIndex];
-			if (selected) this.onSelectCallback(selected);
-		};
+		this.searchInput.onSubmit = () => this.confirmSelection();
 		this.addChild(this.searchInput);
 
 		this.addChild(new Spacer(1));
@@ -319,6 +1225,10 @@ class TodoSelectorComponent extends Container implements Focusable {
 
 	setTodos(todos: TodoFrontMatter[]): void {
 		this.allTodos = todos;
+		const keys = new Set(todos.map((todo) => this.getMarkKey(todo)));
+		for (const key of this.marked) {
+			if (!keys.has(key)) this.marked.delete(key);
+		}
 		this.updateHeader();
 		this.applyFilter(this.searchInput.getValue());
 		this.tui.requestRender();
@@ -328,32 +1238,75 @@ class TodoSelectorComponent extends Container implements Focusable {
 		return this.searchInput.getValue();
 	}
 
-	private updateHeader(): void {
-		const openCount = this.allTodos.filter((todo) => !isTodoClosed(todo.status)).length;
-		const closedCount = this.allTodos.length - openCount;
-		const title = `Todos (${openCount} open, ${closedCount} closed)`;
-		this.headerText.setText(this.theme.fg("accent", this.theme.bold(title)));
+	clearMarks(): void {
+		this.marked.clear();
+		this.updateHeader();
+		this.updateList();
+		this.tui.requestRender();
 	}
 
-	private updateHints(): void {
-		this.hintText.setText(
-			this.theme.fg(
-				"dim",
-				"Type to search • ↑↓ select • Enter actions • Ctrl+Shift+W work • Ctrl+Shift+R refine • Esc close",
-			),
-		);
+	private getMarkKey(todo: TodoFrontMatter): string {
+		return `${todo.source ?? ""}\0${todo.id}`;
 	}
 
-	private applyFilter(query: string): void {
-		this.filteredTodos = filterTodos(this.allTodos, query);
-		this.selectedIndex = Math.min(this.selectedIndex, Math.max(0, this.filteredTodos.length - 1));
-		this.updateList();
+	private getMarkedTodos(): TodoFrontMatter[] {
+		return this.allTodos.filter((todo) => this.marked.has(this.getMarkKey(todo)));
 	}
 
-	private updateList(): void {
-		this.listContainer.clear();
-
-		if (this.filteredTodos.length === 0) {
+	private confirmSelection(): void {
+		if (this.marked.size > 0 && this.onBulkSelect) {
+			this.onBulkSelect(this.getMarkedTodos());
+			return;
+		}
+		const selected = this.filteredTodos[this.selectedIndex];
+		if (selected) this.onSelectCallback(selected);
+	}
+
+	private toggleMark(): void {
+		const selected = this.filteredTodos[this.selectedIndex];
+		if (!selected) return;
+		const key = this.getMarkKey(selected);
+		if (this.marked.has(key)) {
+			this.marked.delete(key);
+		} else {
+			this.marked.add(key);
+		}
+		if (this.selectedIndex < this.filteredTodos.length - 1) this.selectedIndex += 1;
+		this.updateHeader();
+		this.updateList();
+	}
+
+	private updateHeader(): void {
+		const openCount = this.allTodos.filter((todo) => !isTodoClosed(getTodoStatus(todo), this.terminalStatuses)).length;
+		const closedCount = this.allTodos.length - openCount;
+		const markedText = this.marked.size ? `, ${this.marked.size} marked` : "";
+		const title = `Todos (${openCount} open, ${closedCount} closed${markedText})`;
+		this.headerText.setText(this.theme.fg("accent", this.theme.bold(title)));
+	}
+
+	private updateHints(): void {
+		const hints = ["Type to search (status:open tag:api priority:p0 due:<7d assignee:me)", "↑↓ select"];
+		if (this.onBulkSelect) hints.push("Space mark (Ctrl+Space while searching)");
+		if (this.onQuickAction) {
+			hints.push("Enter actions", "Ctrl+Shift+W work", "Ctrl+Shift+R refine");
+		} else {
+			hints.push("Enter view");
+		}
+		if (this.onToggleView) hints.push("Tab board");
+		hints.push("Esc close");
+		this.hintText.setText(this.theme.fg("dim", hints.join(" • ")));
+	}
+
+	private applyFilter(query: string): void {
+		this.filteredTodos = filterTodos(this.allTodos, query, this.terminalStatuses, this.currentSessionId);
+		this.selectedIndex = Math.min(this.selectedIndex, Math.max(0, this.filteredTodos.length - 1));
+		this.updateList();
+	}
+
+	private updateList(): void {
+		this.listContainer.clear();
+
+		if (this.filteredTodos.length === 0) {
 			this.listContainer.addChild(new Text(this.theme.fg("muted", "  No matching todos"), 0, 0));
 			return;
 		}
@@ -364,24 +1317,33 @@ class TodoSelectorComponent extends Container implements Focusable {
 			Math.min(this.selectedIndex - Math.floor(maxVisible / 2), this.filteredTodos.length - maxVisible),
 		);
 		const endIndex = Math.min(startIndex + maxVisible, this.filteredTodos.length);
+		const sourceWidth = Math.max(0, ...this.filteredTodos.map((todo) => visibleWidth(todo.source ?? "")));
 
 		for (let i = startIndex; i < endIndex; i += 1) {
 			const todo = this.filteredTodos[i];
 			if (!todo) continue;
 			const isSelected = i === this.selectedIndex;
-			const closed = isTodoClosed(todo.status);
+			const closed = isTodoClosed(getTodoStatus(todo), this.terminalStatuses);
 			const prefix = isSelected ? this.theme.fg("accent", "→ ") : "  ";
+			const mark = this.marked.has(this.getMarkKey(todo)) ? this.theme.fg("warning", "● ") : "";
+			const sourceText = sourceWidth ? this.theme.fg("muted", `${(todo.source ?? "").padEnd(sourceWidth)} `) : "";
 			const titleColor = isSelected ? "accent" : closed ? "dim" : "text";
 			const statusColor = closed ? "dim" : "success";
 			const tagText = todo.tags.length ? ` [${todo.tags.join(", ")}]` : "";
 			const assignmentText = renderAssignmentSuffix(this.theme, todo, this.currentSessionId);
 			const line =
 				prefix +
+				mark +
+				sourceText +
 				this.theme.fg("accent", formatTodoId(todo.id)) +
 				" " +
+				renderPriorityBadge(this.theme, todo) +
 				this.theme.fg(titleColor, todo.title || "(untitled)") +
+				renderChecklistProgress(this.theme, getChecklistProgress(todo)) +
 				this.theme.fg("muted", tagText) +
 				assignmentText +
+				renderDueSuffix(this.theme, todo, this.terminalStatuses) +
+				renderCostSuffix(this.theme, todo) +
 				" " +
 				this.theme.fg(statusColor, `(${todo.status || "open"})`);
 			this.listContainer.addChild(new Text(line, 0, 0));
@@ -411,14 +1373,26 @@ class TodoSelectorComponent extends Container implements Focusable {
 			return;
 		}
 		if (kb.matches(keyData, "selectConfirm")) {
-			const selected = this.filteredTodos[this.selectedIndex];
-			if (selected) this.onSelectCallback(selected);
+			this.confirmSelection();
 			return;
 		}
 		if (kb.matches(keyData, "selectCancel")) {
+			if (this.marked.size > 0) {
+				this.clearMarks();
+				return;
+			}
 			this.onCancelCallback();
 			return;
 		}
+		// Space is still needed for multi-term searches, so it only marks while the search is empty.
+		if (
+			this.onBulkSelect &&
+			(matchesKey(keyData, Key.ctrl("space")) ||
+				(matchesKey(keyData, Key.space) && this.searchInput.getValue() === ""))
+		) {
+			this.toggleMark();
+			return;
+		}
 		if (matchesKey(keyData, Key.ctrlShift("r"))) {
 			const selected = this.filteredTodos[this.selectedIndex];
 			if (selected && this.onQuickAction) this.onQuickAction(selected, "refine");
@@ -429,6 +1403,10 @@ class TodoSelectorComponent extends Container implements Focusable {
 			if (selected && this.onQuickAction) this.onQuickAction(selected, "work");
 			return;
 		}
+		if (matchesKey(keyData, Key.tab) && this.onToggleView) {
+			this.onToggleView();
+			return;
+		}
 		this.searchInput.handleInput(keyData);
 		this.applyFilter(this.searchInput.getValue());
 	}
@@ -441,6 +1419,205 @@ class TodoSelectorComponent extends Container implements Focusable {
 	}
 }
 
+class TodoBoardComponent extends Container {
+	private allTodos: TodoFrontMatter[];
+	private columns: string[];
+	private grouped: TodoFrontMatter[][] = [];
+	private columnIndex = 0;
+	private rowIndexes: number[] = [];
+	private tui: TUI;
+	private theme: Theme;
+	private headerText: Text;
+	private hintText: Text;
+	private currentSessionId?: string;
+
+	constructor(
+		tui: TUI,
+		theme: Theme,
+		todos: TodoFrontMatter[],
+		columns: string[],
+		private terminalStatuses: readonly string[],
+		private onSelect: (todo: TodoFrontMatter) => void,
+		private onMove: (todo: TodoFrontMatter, status: string) => void,
+		private onToggleView: () => void,
+		private onCancel: () => void,
+		currentSessionId?: string,
+	) {
+		super();
+		this.tui = tui;
+		this.theme = theme;
+		this.columns = columns;
+		this.allTodos = todos;
+		this.currentSessionId = currentSessionId;
+		this.rowIndexes = columns.map(() => 0);
+
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Spacer(1));
+		this.headerText = new Text("", 1, 0);
+		this.addChild(this.headerText);
+		this.addChild(new Spacer(1));
+		this.addChild({
+			render: (width: number) => this.renderColumns(width),
+			invalidate: () => {},
+		});
+		this.addChild(new Spacer(1));
+		this.hintText = new Text("", 1, 0);
+		this.addChild(this.hintText);
+		this.addChild(new Spacer(1));
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+
+		this.regroup();
+		this.updateHeader();
+		this.updateHints();
+	}
+
+	setTodos(todos: TodoFrontMatter[], focusId?: string): void {
+		this.allTodos = todos;
+		this.regroup();
+		if (focusId) this.focusTodo(focusId);
+		this.updateHeader();
+		this.tui.requestRender();
+	}
+
+	private regroup(): void {
+		this.grouped = groupTodosIntoColumns(this.allTodos, this.columns, this.terminalStatuses);
+		this.rowIndexes = this.grouped.map((column, index) =>
+			Math.min(this.rowIndexes[index] ?? 0, Math.max(0, column.length - 1)),
+		);
+	}
+
+	private focusTodo(id: string): void {
+		this.grouped.forEach((column, columnIndex) => {
+			const rowIndex = column.findIndex((todo) => todo.id === id);
+			if (rowIndex === -1) return;
+			this.columnIndex = columnIndex;
+			this.rowIndexes[columnIndex] = rowIndex;
+		});
+	}
+
+	private getSelected(): TodoFrontMatter | undefined {
+		return this.grouped[this.columnIndex]?.[this.rowIndexes[this.columnIndex] ?? 0];
+	}
+
+	private updateHeader(): void {
+		const title = `Todo board (${this.allTodos.length} todos)`;
+		this.headerText.setText(this.theme.fg("accent", this.theme.bold(title)));
+	}
+
+	private updateHints(): void {
+		this.hintText.setText(
+			this.theme.fg(
+				"dim",
+				"←→ column • ↑↓ select • Shift+←→ move todo • Enter actions • Tab list view • Esc close",
+			),
+		);
+	}
+
+	private renderColumns(width: number): string[] {
+		const gap = this.theme.fg("borderMuted", " │ ");
+		const count = Math.max(1, this.columns.length);
+		const columnWidth = Math.max(8, Math.floor((width - 2 - (count - 1) * 3) / count));
+		const maxRows = Math.max(3, Math.min(12, (this.tui.terminal.rows || 24) - 12));
+		const pad = (text: string) => {
+			const truncated = truncateToWidth(text, columnWidth);
+			return truncated + " ".repeat(Math.max(0, columnWidth - visibleWidth(truncated)));
+		};
+
+		const cells = this.columns.map((column, columnIndex) => {
+			const todos = this.grouped[columnIndex] ?? [];
+			const isActiveColumn = columnIndex === this.columnIndex;
+			const heading = `${column} (${todos.length})`;
+			const lines = [
+				isActiveColumn ? this.theme.fg("accent", this.theme.bold(heading)) : this.theme.fg("muted", heading),
+				this.theme.fg("borderMuted", "─".repeat(columnWidth)),
+			];
+			const selectedRow = this.rowIndexes[columnIndex] ?? 0;
+			const start = Math.max(0, Math.min(selectedRow - Math.floor(maxRows / 2), todos.length - maxRows));
+			for (let i = start; i < Math.min(start + maxRows, todos.length); i += 1) {
+				const todo = todos[i];
+				const isSelected = isActiveColumn && i === selectedRow;
+				const closed = isTodoClosed(getTodoStatus(todo), this.terminalStatuses);
+				const titleColor = isSelected ? "accent" : closed ? "dim" : "text";
+				lines.push(
+					(isSelected ? this.theme.fg("accent", "→ ") : "  ") +
+						renderPriorityBadge(this.theme, todo) +
+						this.theme.fg(titleColor, getTodoTitle(todo)) +
+						renderChecklistProgress(this.theme, getChecklistProgress(todo)) +
+						renderAssignmentSuffix(this.theme, todo, this.currentSessionId),
+				);
+			}
+			if (!todos.length) {
+				lines.push(this.theme.fg("dim", "  (empty)"));
+			} else if (todos.length > maxRows) {
+				lines.push(this.theme.fg("dim", `  (${selectedRow + 1}/${todos.length})`));
+			}
+			return lines;
+		});
+
+		const height = Math.max(...cells.map((lines) => lines.length));
+		const rows: string[] = [];
+		for (let row = 0; row < height; row += 1) {
+			rows.push(" " + cells.map((lines) => pad(lines[row] ?? "")).join(gap));
+		}
+		return rows.map((line) => truncateToWidth(line, width));
+	}
+
+	handleInput(keyData: string): void {
+		const kb = getEditorKeybindings();
+		const column = this.grouped[this.columnIndex] ?? [];
+		if (matchesKey(keyData, Key.shift("left")) || matchesKey(keyData, Key.shift("right"))) {
+			const selected = this.getSelected();
+			const target = this.columnIndex + (matchesKey(keyData, Key.shift("left")) ? -1 : 1);
+			if (selected && target >= 0 && target < this.columns.length) {
+				this.onMove(selected, this.columns[target]);
+			}
+			return;
+		}
+		if (matchesKey(keyData, Key.left)) {
+			this.columnIndex = this.columnIndex === 0 ? this.columns.length - 1 : this.columnIndex - 1;
+			this.tui.requestRender();
+			return;
+		}
+		if (matchesKey(keyData, Key.right)) {
+			this.columnIndex = this.columnIndex === this.columns.length - 1 ? 0 : this.columnIndex + 1;
+			this.tui.requestRender();
+			return;
+		}
+		if (kb.matches(keyData, "selectUp")) {
+			if (!column.length) return;
+			const row = this.rowIndexes[this.columnIndex] ?? 0;
+			this.rowIndexes[this.columnIndex] = row === 0 ? column.length - 1 : row - 1;
+			this.tui.requestRender();
+			return;
+		}
+		if (kb.matches(keyData, "selectDown")) {
+			if (!column.length) return;
+			const row = this.rowIndexes[this.columnIndex] ?? 0;
+			this.rowIndexes[this.columnIndex] = row === column.length - 1 ? 0 : row + 1;
+			this.tui.requestRender();
+			return;
+		}
+		if (kb.matches(keyData, "selectConfirm")) {
+			const selected = this.getSelected();
+			if (selected) this.onSelect(selected);
+			return;
+		}
+		if (matchesKey(keyData, Key.tab)) {
+			this.onToggleView();
+			return;
+		}
+		if (kb.matches(keyData, "selectCancel")) {
+			this.onCancel();
+		}
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+		this.updateHeader();
+		this.updateHints();
+	}
+}
+
 class TodoActionMenuComponent extends Container {
 	private selectList: SelectList;
 	private onSelectCallback: (action: TodoMenuAction) => void;
@@ -449,6 +1626,7 @@ class TodoActionMenuComponent extends Container {
 	constructor(
 		theme: Theme,
 		todo: TodoRecord,
+		terminalStatuses: readonly string[],
 		onSelect: (action: TodoMenuAction) => void,
 		onCancel: () => void,
 	) {
@@ -456,7 +1634,7 @@ class TodoActionMenuComponent extends Container {
 		this.onSelectCallback = onSelect;
 		this.onCancelCallback = onCancel;
 
-		const closed = isTodoClosed(todo.status);
+		const closed = isTodoClosed(getTodoStatus(todo), terminalStatuses);
 		const title = todo.title || "(untitled)";
 		const options: SelectItem[] = [
 			{ value: "view", label: "view", description: "View todo" },
@@ -468,6 +1646,20 @@ class TodoActionMenuComponent extends Container {
 			...(todo.assigned_to_session
 				? [{ value: "release", label: "release", description: "Release assignment" }]
 				: []),
+			{ value: "priority", label: "priority", description: `Set priority (${todo.priority ?? "none"})` },
+			{ value: "due", label: "due", description: `Set due date (${todo.due ?? "none"})` },
+			{ value: "estimate", label: "estimate", description: `Set estimate (${todo.estimate ?? "none"})` },
+			...(closed
+				? []
+				: [
+						todo.close_on_merge
+							? { value: "closeOnMerge", label: "keep open", description: "Stop closing on merge" }
+							: {
+									value: "closeOnMerge",
+									label: "close on merge",
+									description: "Close once a commit mentioning it lands on the default branch",
+								},
+					]),
 			{ value: "copyPath", label: "copy path", description: "Copy absolute path to clipboard" },
 			{ value: "copyText", label: "copy text", description: "Copy title and body to clipboard" },
 			{ value: "delete", label: "delete", description: "Delete todo" },
@@ -508,21 +1700,164 @@ class TodoActionMenuComponent extends Container {
 	}
 }
 
-class TodoDeleteConfirmComponent extends Container {
+class TodoPlanReviewComponent extends Container {
+	private listContainer: Container;
+
+	constructor(
+		private theme: Theme,
+		goal: string,
+		private items: TodoPlanItem[],
+		private dropped: Set<number>,
+		private selectedIndex: number,
+		private onDone: (action: TodoPlanReviewAction) => void,
+	) {
+		super();
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Text(theme.fg("accent", theme.bold(`Plan: ${goal}`)), 1, 0));
+		this.addChild(new Spacer(1));
+		this.listContainer = new Container();
+		this.addChild(this.listContainer);
+		this.addChild(new Spacer(1));
+		this.addChild(
+			new Text(theme.fg("dim", "↑↓ select • Space drop/keep • e edit • Enter create • Esc cancel"), 1, 0),
+		);
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.updateList();
+	}
+
+	private updateList(): void {
+		this.listContainer.clear();
+		for (const [index, item] of this.items.entries()) {
+			const isSelected = index === this.selectedIndex;
+			const isDropped = this.dropped.has(index);
+			const prefix = isSelected ? this.theme.fg("accent", "→ ") : "  ";
+			const deps = (item.depends_on ?? []).map((dep) => (typeof dep === "number" ? `#${dep}` : displayTodoId(dep)));
+			const tagText = item.tags?.length ? ` [${item.tags.join(", ")}]` : "";
+			const depText = deps.length ? ` after ${deps.join(", ")}` : "";
+			const title = `${index + 1}. ${item.title}`;
+			const line =
+				prefix +
+				(isDropped
+					? this.theme.fg("dim", `${title} (dropped)`)
+					: this.theme.fg(isSelected ? "accent" : "text", title) +
+						this.theme.fg("muted", tagText) +
+						this.theme.fg("dim", depText));
+			this.listContainer.addChild(new Text(line, 0, 0));
+		}
+	}
+
+	handleInput(keyData: string): void {
+		const kb = getEditorKeybindings();
+		if (kb.matches(keyData, "selectUp")) {
+			this.selectedIndex = this.selectedIndex === 0 ? this.items.length - 1 : this.selectedIndex - 1;
+			this.updateList();
+			return;
+		}
+		if (kb.matches(keyData, "selectDown")) {
+			this.selectedIndex = this.selectedIndex === this.items.length - 1 ? 0 : this.selectedIndex + 1;
+			this.updateList();
+			return;
+		}
+		if (matchesKey(keyData, Key.space)) {
+			if (this.dropped.has(this.selectedIndex)) {
+				this.dropped.delete(this.selectedIndex);
+			} else {
+				this.dropped.add(this.selectedIndex);
+			}
+			this.updateList();
+			return;
+		}
+		if (keyData.toLowerCase() === "e") {
+			this.onDone({ action: "edit", index: this.selectedIndex });
+			return;
+		}
+		if (kb.matches(keyData, "selectConfirm")) {
+			this.onDone({ action: "confirm" });
+			return;
+		}
+		if (kb.matches(keyData, "selectCancel")) {
+			this.onDone({ action: "cancel" });
+		}
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+		this.updateList();
+	}
+}
+
+class TodoLockListComponent extends Container {
 	private selectList: SelectList;
-	private onConfirm: (confirmed: boolean) => void;
 
-	constructor(theme: Theme, message: string, onConfirm: (confirmed: boolean) => void) {
+	constructor(
+		theme: Theme,
+		locks: TodoLockStatus[],
+		onSelect: (lock: TodoLockStatus) => void,
+		onCancel: () => void,
+	) {
 		super();
-		this.onConfirm = onConfirm;
+		const options: SelectItem[] = locks.map((lock) => ({
+			value: lock.id,
+			label: `${formatTodoId(lock.id)} ${lock.title ?? "(missing todo)"}`,
+			description: formatTodoLockStatus(lock),
+		}));
+
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Text(theme.fg("accent", theme.bold(`Todo locks (${locks.length})`))));
+
+		this.selectList = new SelectList(options, Math.min(options.length, 10), {
+			selectedPrefix: (text) => theme.fg("accent", text),
+			selectedText: (text) => theme.fg("accent", text),
+			description: (text) => theme.fg("muted", text),
+			scrollInfo: (text) => theme.fg("dim", text),
+			noMatch: (text) => theme.fg("warning", text),
+		});
+
+		this.selectList.onSelect = (item) => {
+			const lock = locks.find((entry) => entry.id === item.value);
+			if (lock) onSelect(lock);
+		};
+		this.selectList.onCancel = () => onCancel();
+
+		this.addChild(this.selectList);
+		this.addChild(new Text(theme.fg("dim", "Enter to force release • Esc close")));
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+	}
+
+	handleInput(keyData: string): void {
+		this.selectList.handleInput(keyData);
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+	}
+}
 
+class TodoBulkActionMenuComponent extends Container {
+	private selectList: SelectList;
+
+	constructor(
+		theme: Theme,
+		todos: TodoFrontMatter[],
+		onSelect: (action: TodoBulkAction) => void,
+		onCancel: () => void,
+	) {
+		super();
+		const count = todos.length;
+		const assignedCount = todos.filter((todo) => todo.assigned_to_session).length;
 		const options: SelectItem[] = [
-			{ value: "yes", label: "Yes" },
-			{ value: "no", label: "No" },
+			{ value: "work", label: "work on all", description: `Work on ${count} todos in one prompt` },
+			{ value: "close", label: "close", description: `Close ${count} todos` },
+			{ value: "reopen", label: "reopen", description: `Reopen ${count} todos` },
+			{ value: "retag", label: "retag", description: "Replace tags, or add/remove with +tag -tag" },
+			...(assignedCount
+				? [{ value: "release", label: "release", description: `Release ${assignedCount} assignments` }]
+				: []),
+			{ value: "delete", label: "delete", description: `Delete ${count} todos` },
 		];
 
 		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
-		this.addChild(new Text(theme.fg("accent", message)));
+		this.addChild(new Text(theme.fg("accent", theme.bold(`Actions for ${count} marked todos`))));
 
 		this.selectList = new SelectList(options, options.length, {
 			selectedPrefix: (text) => theme.fg("accent", text),
@@ -532,8 +1867,8 @@ class TodoDeleteConfirmComponent extends Container {
 			noMatch: (text) => theme.fg("warning", text),
 		});
 
-		this.selectList.onSelect = (item) => this.onConfirm(item.value === "yes");
-		this.selectList.onCancel = () => this.onConfirm(false);
+		this.selectList.onSelect = (item) => onSelect(item.value as TodoBulkAction);
+		this.selectList.onCancel = () => onCancel();
 
 		this.addChild(this.selectList);
 		this.addChild(new Text(theme.fg("dim", "Enter to confirm • Esc back")));
@@ -549,27 +1884,221 @@ class TodoDeleteConfirmComponent extends Container {
 	}
 }
 
-class TodoDetailOverlayComponent {
-	private todo: TodoRecord;
-	private theme: Theme;
-	private tui: TUI;
-	private markdown: Markdown;
-	private scrollOffset = 0;
-	private viewHeight = 0;
-	private totalLines = 0;
-	private onAction: (action: TodoOverlayAction) => void;
+class TodoDeleteConfirmComponent extends Container {
+	private selectList: SelectList;
+	private onConfirm: (confirmed: boolean) => void;
 
-	constructor(tui: TUI, theme: Theme, todo: TodoRecord, onAction: (action: TodoOverlayAction) => void) {
-		this.tui = tui;
-		this.theme = theme;
-		this.todo = todo;
-		this.onAction = onAction;
-		this.markdown = new Markdown(this.getMarkdownText(), 1, 0, getMarkdownTheme());
-	}
+	constructor(theme: Theme, message: string, onConfirm: (confirmed: boolean) => void) {
+		super();
+		this.onConfirm = onConfirm;
+
+		const options: SelectItem[] = [
+			{ value: "yes", label: "Yes" },
+			{ value: "no", label: "No" },
+		];
+
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Text(theme.fg("accent", message)));
+
+		this.selectList = new SelectList(options, options.length, {
+			selectedPrefix: (text) => theme.fg("accent", text),
+			selectedText: (text) => theme.fg("accent", text),
+			description: (text) => theme.fg("muted", text),
+			scrollInfo: (text) => theme.fg("dim", text),
+			noMatch: (text) => theme.fg("warning", text),
+		});
+
+		this.selectList.onSelect = (item) => this.onConfirm(item.value === "yes");
+		this.selectList.onCancel = () => this.onConfirm(false);
+
+		this.addChild(this.selectList);
+		this.addChild(new Text(theme.fg("dim", "Enter to confirm • Esc back")));
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+	}
+
+	handleInput(keyData: string): void {
+		this.selectList.handleInput(keyData);
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+	}
+}
+
+class TodoPriorityMenuComponent extends Container {
+	private selectList: SelectList;
+
+	constructor(theme: Theme, todo: TodoRecord, onSelect: (priority: string | null) => void) {
+		super();
+
+		const options: SelectItem[] = [
+			{ value: "p0", label: "p0", description: "Urgent" },
+			{ value: "p1", label: "p1", description: "High" },
+			{ value: "p2", label: "p2", description: "Normal" },
+			{ value: "p3", label: "p3", description: "Low" },
+			{ value: "", label: "none", description: "Clear priority" },
+		];
+
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Text(theme.fg("accent", theme.bold(`Priority for ${formatTodoId(todo.id)}`))));
+
+		this.selectList = new SelectList(options, options.length, {
+			selectedPrefix: (text) => theme.fg("accent", text),
+			selectedText: (text) => theme.fg("accent", text),
+			description: (text) => theme.fg("muted", text),
+			scrollInfo: (text) => theme.fg("dim", text),
+			noMatch: (text) => theme.fg("warning", text),
+		});
+		const currentIndex = options.findIndex((option) => option.value === (todo.priority ?? ""));
+		this.selectList.setSelectedIndex(Math.max(0, currentIndex));
+
+		this.selectList.onSelect = (item) => onSelect(item.value);
+		this.selectList.onCancel = () => onSelect(null);
+
+		this.addChild(this.selectList);
+		this.addChild(new Text(theme.fg("dim", "Enter to confirm • Esc back")));
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+	}
+
+	handleInput(keyData: string): void {
+		this.selectList.handleInput(keyData);
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+	}
+}
+
+class TodoFieldInputComponent extends Container implements Focusable {
+	private input: Input;
+	private onDone: (value: string | null) => void;
+
+	private _focused = false;
+	get focused(): boolean {
+		return this._focused;
+	}
+	set focused(value: boolean) {
+		this._focused = value;
+		this.input.focused = value;
+	}
+
+	constructor(
+		theme: Theme,
+		title: string,
+		hint: string,
+		initialValue: string,
+		onDone: (value: string | null) => void,
+	) {
+		super();
+		this.onDone = onDone;
+
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		this.addChild(new Text(theme.fg("accent", theme.bold(title))));
+		this.addChild(new Spacer(1));
+
+		this.input = new Input();
+		this.input.setValue(initialValue);
+		this.input.onSubmit = (value) => this.onDone(value);
+		this.addChild(this.input);
+
+		this.addChild(new Spacer(1));
+		this.addChild(new Text(theme.fg("dim", `${hint} • Enter to save (empty clears) • Esc back`)));
+		this.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+	}
+
+	handleInput(keyData: string): void {
+		const kb = getEditorKeybindings();
+		if (kb.matches(keyData, "selectCancel")) {
+			this.onDone(null);
+			return;
+		}
+		this.input.handleInput(keyData);
+	}
+
+	override invalidate(): void {
+		super.invalidate();
+	}
+}
+
+class TodoDetailOverlayComponent {
+	private todo: TodoRecord;
+	private theme: Theme;
+	private tui: TUI;
+	private markdown: Markdown;
+	private scrollOffset = 0;
+	private viewHeight = 0;
+	private totalLines = 0;
+	private onAction: (action: TodoOverlayAction) => void;
+	private dependencies: { dependsOn: TodoFrontMatter[]; blocks: TodoFrontMatter[] };
+	private history: TodoHistoryEntry[];
+	private commits: TodoCommit[];
+	private readOnly: boolean;
+	private terminalStatuses: readonly string[];
+
+	constructor(
+		tui: TUI,
+		theme: Theme,
+		todo: TodoRecord,
+		terminalStatuses: readonly string[],
+		onAction: (action: TodoOverlayAction) => void,
+		extras: {
+			dependencies?: { dependsOn: TodoFrontMatter[]; blocks: TodoFrontMatter[] };
+			history?: TodoHistoryEntry[];
+			commits?: TodoCommit[];
+			readOnly?: boolean;
+		} = {},
+	) {
+		this.tui = tui;
+		this.theme = theme;
+		this.todo = todo;
+		this.terminalStatuses = terminalStatuses;
+		this.onAction = onAction;
+		this.dependencies = extras.dependencies ?? { dependsOn: [], blocks: [] };
+		this.history = extras.history ?? [];
+		this.commits = extras.commits ?? [];
+		this.readOnly = extras.readOnly ?? false;
+		this.markdown = new Markdown(this.getMarkdownText(), 1, 0, getMarkdownTheme());
+	}
 
 	private getMarkdownText(): string {
 		const body = this.todo.body?.trim();
-		return body ? body : "_No details yet._";
+		const sections = [body ? body : "_No details yet._"];
+		const { dependsOn, blocks } = this.dependencies;
+		if (dependsOn.length || blocks.length) {
+			const formatEntry = (todo: TodoFrontMatter) => {
+				const status = getTodoStatus(todo);
+				const marker = isTodoClosed(status, this.terminalStatuses) ? "[x]" : "[ ]";
+				return `- ${marker} \`${formatTodoId(todo.id)}\` ${getTodoTitle(todo)} _(${status})_`;
+			};
+			const lines = ["---", "", "**Dependencies**", ""];
+			lines.push("Depends on:", "");
+			lines.push(...(dependsOn.length ? dependsOn.map(formatEntry) : ["- _none_"]));
+			lines.push("", "Blocks:", "");
+			lines.push(...(blocks.length ? blocks.map(formatEntry) : ["- _none_"]));
+			sections.push(lines.join("\n"));
+		}
+		if (this.commits.length || this.todo.branch) {
+			const lines = ["---", "", "**Commits**", ""];
+			if (this.todo.branch) {
+				const suffix = this.todo.close_on_merge ? " _(closes on merge)_" : "";
+				lines.push(`Branch: \`${this.todo.branch}\`${suffix}`, "");
+			}
+			for (const commit of this.commits) {
+				const meta = `${commit.author}, ${commit.date.slice(0, 10)}`;
+				lines.push(`- \`${commit.shortHash}\` ${commit.subject} _(${meta})_`);
+			}
+			if (!this.commits.length) lines.push("- _no commits mention this todo yet_");
+			sections.push(lines.join("\n"));
+		}
+		if (this.history.length) {
+			const lines = ["---", "", "**History**", ""];
+			// Newest first; the overlay scrolls, so keep every entry.
+			for (const entry of [...this.history].reverse()) {
+				lines.push(`- ${formatTodoHistoryEntry(entry)}`);
+			}
+			sections.push(lines.join("\n"));
+		}
+		return sections.join("\n\n");
 	}
 
 	handleInput(keyData: string): void {
@@ -579,7 +2108,7 @@ class TodoDetailOverlayComponent {
 			return;
 		}
 		if (kb.matches(keyData, "selectConfirm")) {
-			this.onAction("work");
+			if (!this.readOnly) this.onAction("work");
 			return;
 		}
 		if (kb.matches(keyData, "selectUp")) {
@@ -643,6 +2172,24 @@ class TodoDetailOverlayComponent {
 		return [top, ...framedLines, bottom].map((line) => truncateToWidth(line, width));
 	}
 
+	get todoId(): string {
+		return this.todo.id;
+	}
+
+	setContent(
+		todo: TodoRecord,
+		extras: {
+			dependencies?: { dependsOn: TodoFrontMatter[]; blocks: TodoFrontMatter[] };
+			history?: TodoHistoryEntry[];
+		},
+	): void {
+		this.todo = todo;
+		this.dependencies = extras.dependencies ?? this.dependencies;
+		this.history = extras.history ?? this.history;
+		this.invalidate();
+		this.tui.requestRender();
+	}
+
 	invalidate(): void {
 		this.markdown = new Markdown(this.getMarkdownText(), 1, 0, getMarkdownTheme());
 	}
@@ -671,21 +2218,33 @@ class TodoDetailOverlayComponent {
 
 	private buildMetaLine(width: number): string {
 		const status = this.todo.status || "open";
-		const statusColor = isTodoClosed(status) ? "dim" : "success";
+		const statusColor = isTodoClosed(status, this.terminalStatuses) ? "dim" : "success";
 		const tagText = this.todo.tags.length ? this.todo.tags.join(", ") : "no tags";
+		const blockedBy = this.dependencies.dependsOn.filter(
+			(todo) => !isTodoClosed(getTodoStatus(todo), this.terminalStatuses),
+		);
+		const checklist = summarizeChecklist(this.todo.body ?? "");
+		const blockedText = blockedBy.length
+			? this.theme.fg("muted", " • ") + this.theme.fg("warning", `blocked by ${blockedBy.length}`)
+			: "";
 		const line =
 			this.theme.fg("accent", formatTodoId(this.todo.id)) +
 			this.theme.fg("muted", " • ") +
 			this.theme.fg(statusColor, status) +
 			this.theme.fg("muted", " • ") +
-			this.theme.fg("muted", tagText);
+			this.theme.fg("muted", tagText) +
+			blockedText +
+			(checklist
+				? this.theme.fg("muted", " • ") + this.theme.fg("muted", `${checklist.done}/${checklist.total} done`)
+				: "") +
+			renderPlanningSuffix(this.theme, this.todo, this.terminalStatuses);
 		return truncateToWidth(line, width);
 	}
 
 	private buildActionLine(width: number): string {
 		const work = this.theme.fg("accent", "enter") + this.theme.fg("muted", " work on todo");
 		const back = this.theme.fg("dim", "esc back");
-		const pieces = [work, back];
+		const pieces = this.readOnly ? [back] : [work, back];
 
 		let line = pieces.join(this.theme.fg("muted", " • "));
 		if (this.totalLines > this.viewHeight) {
@@ -709,7 +2268,144 @@ function getTodosDir(cwd: string): string {
 	if (overridePath && overridePath.trim()) {
 		return path.resolve(cwd, overridePath.trim());
 	}
-	return path.resolve(cwd, TODO_DIR_NAME);
+	return path.resolve(findTodoPackageDir(cwd, findRepoRoot(cwd)), TODO_DIR_NAME);
+}
+
+function findRepoRoot(cwd: string): string {
+	let dir = path.resolve(cwd);
+	while (true) {
+		if (existsSync(path.join(dir, ".git"))) return dir;
+		const parent = path.dirname(dir);
+		if (parent === dir) return path.resolve(cwd);
+		dir = parent;
+	}
+}
+
+/**
+ * The package a cwd belongs to: the nearest directory up to the repository root
+ * that already has todos or a package.json.  Falls back to the cwd itself.
+ */
+function findTodoPackageDir(cwd: string, repoRoot: string): string {
+	let dir = path.resolve(cwd);
+	while (true) {
+		if (existsSync(path.join(dir, TODO_DIR_NAME)) || existsSync(path.join(dir, "package.json"))) return dir;
+		if (dir === repoRoot) break;
+		const parent = path.dirname(dir);
+		if (parent === dir) break;
+		dir = parent;
+	}
+	return path.resolve(cwd);
+}
+
+function readWorkspacePatterns(repoRoot: string): string[] {
+	const patterns: string[] = [];
+	try {
+		const pkg = JSON.parse(readFileSync(path.join(repoRoot, "package.json"), "utf8"));
+		const workspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+		if (Array.isArray(workspaces)) {
+			patterns.push(...workspaces.filter((entry: unknown): entry is string => typeof entry === "string"));
+		}
+	} catch {
+		// no package.json or no workspaces
+	}
+	try {
+		// Only the `packages:` list of pnpm-workspace.yaml matters, so skip a YAML parser.
+		const yaml = readFileSync(path.join(repoRoot, "pnpm-workspace.yaml"), "utf8");
+		let inPackages = false;
+		for (const line of yaml.split(/\r?\n/)) {
+			if (/^packages\s*:/.test(line)) {
+				inPackages = true;
+				continue;
+			}
+			if (inPackages && /^\S/.test(line)) break;
+			const match = inPackages ? line.match(/^\s*-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/) : null;
+			if (match?.[1]) patterns.push(match[1]);
+		}
+	} catch {
+		// not a pnpm workspace
+	}
+	return patterns.filter((pattern) => !pattern.startsWith("!"));
+}
+
+function expandWorkspacePattern(repoRoot: string, pattern: string): string[] {
+	// Supports literal paths and "*" / "**" segments, which is what workspace lists use in practice.
+	let dirs = [repoRoot];
+	for (const segment of pattern.replace(/\/+$/, "").split("/")) {
+		if (!segment || segment === ".") continue;
+		if (segment !== "*" && segment !== "**") {
+			dirs = dirs.map((dir) => path.join(dir, segment));
+			continue;
+		}
+		dirs = dirs.flatMap((dir) => {
+			try {
+				return readdirSync(dir, { withFileTypes: true })
+					.filter((entry) => entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "node_modules")
+					.map((entry) => path.join(dir, entry.name));
+			} catch {
+				return [];
+			}
+		});
+	}
+	return dirs;
+}
+
+/**
+ * Todo dirs for a scope, write target first.  `package` is the cwd's package,
+ * `repo` the repository root, and `all` adds every ancestor and workspace
+ * package that has todos.  PI_TODO_PATH pins every scope to a single dir.
+ */
+function getTodoSources(cwd: string, scope: TodoScope = "package"): TodoSource[] {
+	const overridePath = process.env[TODO_PATH_ENV];
+	if (overridePath && overridePath.trim()) {
+		return [{ dir: path.resolve(cwd, overridePath.trim()), label: "." }];
+	}
+	const repoRoot = findRepoRoot(cwd);
+	const toSource = (packageDir: string): TodoSource => ({
+		dir: path.join(packageDir, TODO_DIR_NAME),
+		label: path.relative(repoRoot, packageDir) || ".",
+	});
+	const packageDir = findTodoPackageDir(cwd, repoRoot);
+	if (scope === "package") return [toSource(packageDir)];
+	if (scope === "repo") return [toSource(repoRoot)];
+
+	const packageDirs = [packageDir];
+	for (let dir = path.dirname(packageDir); dir.startsWith(repoRoot); dir = path.dirname(dir)) {
+		packageDirs.push(dir);
+		if (dir === repoRoot) break;
+	}
+	for (const pattern of readWorkspacePatterns(repoRoot)) {
+		packageDirs.push(...expandWorkspacePattern(repoRoot, pattern));
+	}
+	const seen = new Set<string>();
+	const sources: TodoSource[] = [];
+	for (const dir of packageDirs) {
+		const source = toSource(dir);
+		if (seen.has(source.dir)) continue;
+		seen.add(source.dir);
+		if (sources.length === 0 || existsSync(source.dir)) sources.push(source);
+	}
+	return sources;
+}
+
+/** The dir in `sources` that holds todo `id`, or the write target if none does. */
+function findTodoSourceDir(sources: TodoSource[], id: string | undefined): string {
+	const validated = id ? validateTodoId(id) : undefined;
+	if (validated && !("error" in validated)) {
+		const match = sources.find((source) => existsSync(getTodoPath(source.dir, validated.id)));
+		if (match) return match.dir;
+	}
+	return sources[0]?.dir ?? "";
+}
+
+/** The status a close or reopen action moves a todo to, per its dir's settings. */
+function getStatusForAction(settings: TodoSettings, action: "close" | "reopen"): string {
+	return action === "close"
+		? (settings.terminalStatuses[0] ?? "closed")
+		: (settings.statuses.find((status) => !isTodoClosed(status, settings.terminalStatuses)) ?? "open");
+}
+
+function getTodoSourceDir(sources: TodoSource[], todo: TodoFrontMatter): string {
+	return sources.find((source) => source.label === todo.source)?.dir ?? sources[0]?.dir ?? "";
 }
 
 function getTodosDirLabel(cwd: string): string {
@@ -724,15 +2420,73 @@ function getTodoSettingsPath(todosDir: string): string {
 	return path.join(todosDir, TODO_SETTINGS_NAME);
 }
 
+function normalizeStatusList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	const seen = new Set<string>();
+	const statuses: string[] = [];
+	for (const entry of value) {
+		if (typeof entry !== "string" || !entry.trim()) continue;
+		const status = entry.trim();
+		if (seen.has(status.toLowerCase())) continue;
+		seen.add(status.toLowerCase());
+		statuses.push(status);
+	}
+	return statuses;
+}
+
 function normalizeTodoSettings(raw: Partial<TodoSettings>): TodoSettings {
 	const gc = raw.gc ?? DEFAULT_TODO_SETTINGS.gc;
 	const gcDays = Number.isFinite(raw.gcDays) ? raw.gcDays : DEFAULT_TODO_SETTINGS.gcDays;
+	const statuses = normalizeStatusList(raw.statuses);
+	const terminalStatuses = Array.isArray(raw.terminalStatuses)
+		? normalizeStatusList(raw.terminalStatuses)
+		: [...DEFAULT_TODO_SETTINGS.terminalStatuses];
+	const transitions: Record<string, string[]> = {};
+	if (raw.transitions && typeof raw.transitions === "object" && !Array.isArray(raw.transitions)) {
+		for (const [from, to] of Object.entries(raw.transitions)) {
+			if (!from.trim()) continue;
+			transitions[from.trim().toLowerCase()] = normalizeStatusList(to);
+		}
+	}
+	const boardColumns = normalizeStatusList(raw.boardColumns);
 	return {
 		gc: Boolean(gc),
 		gcDays: Math.max(0, Math.floor(gcDays)),
+		boardColumns: boardColumns.length
+			? boardColumns
+			: statuses.length
+				? statuses
+				: [...DEFAULT_TODO_SETTINGS.boardColumns],
+		statuses,
+		terminalStatuses,
+		transitions,
 	};
 }
 
+function getAllowedNextStatuses(settings: TodoSettings, from: string): string[] | null {
+	return settings.transitions[from.toLowerCase()] ?? null;
+}
+
+function validateStatusTransition(
+	settings: TodoSettings,
+	from: string | null,
+	to: string,
+): { error: string } | null {
+	const target = to.trim().toLowerCase();
+	if (!target) return { error: "Status cannot be empty" };
+	if (from !== null && from.toLowerCase() === target) return null;
+	if (settings.statuses.length && !settings.statuses.some((status) => status.toLowerCase() === target)) {
+		return { error: `Unknown status "${to}". Allowed statuses: ${settings.statuses.join(", ")}` };
+	}
+	if (from === null) return null;
+	const allowed = getAllowedNextStatuses(settings, from);
+	if (allowed && !allowed.some((status) => status.toLowerCase() === target)) {
+		const options = allowed.length ? allowed.join(", ") : "none";
+		return { error: `Cannot change status from "${from}" to "${to}". Valid next statuses: ${options}` };
+	}
+	return null;
+}
+
 async function readTodoSettings(todosDir: string): Promise<TodoSettings> {
 	const settingsPath = getTodoSettingsPath(todosDir);
 	let data: Partial<TodoSettings> = {};
@@ -747,6 +2501,28 @@ async function readTodoSettings(todosDir: string): Promise<TodoSettings> {
 	return normalizeTodoSettings(data);
 }
 
+function readTodoSettingsSync(todosDir: string): TodoSettings {
+	let data: Partial<TodoSettings> = {};
+	try {
+		data = JSON.parse(readFileSync(getTodoSettingsPath(todosDir), "utf8")) as Partial<TodoSettings>;
+	} catch {
+		data = {};
+	}
+	return normalizeTodoSettings(data);
+}
+
+/**
+ * Terminal statuses for a view spanning several todo dirs.  Each dir has its
+ * own settings.json, so a status that is terminal in any of them counts as closed.
+ */
+function readTerminalStatuses(sources: TodoSource[]): string[] {
+	const statuses: string[] = [];
+	for (const source of sources) {
+		statuses.push(...readTodoSettingsSync(source.dir).terminalStatuses);
+	}
+	return normalizeStatusList(statuses);
+}
+
 async function garbageCollectTodos(todosDir: string, settings: TodoSettings): Promise<void> {
 	if (!settings.gc) return;
 
@@ -768,11 +2544,12 @@ async function garbageCollectTodos(todosDir: string, settings: TodoSettings): Pr
 					const content = await fs.readFile(filePath, "utf8");
 					const { frontMatter } = splitFrontMatter(content);
 					const parsed = parseFrontMatter(frontMatter, id);
-					if (!isTodoClosed(parsed.status)) return;
-					const createdAt = Date.parse(parsed.created_at);
-					if (!Number.isFinite(createdAt)) return;
-					if (createdAt < cutoff) {
-						await fs.unlink(filePath);
+					if (!isTodoClosed(parsed.status, settings.terminalStatuses)) return;
+					// Todos closed before closed_at existed fall back to their creation time.
+					const closedAt = Date.parse(parsed.closed_at ?? parsed.created_at);
+					if (!Number.isFinite(closedAt)) return;
+					if (closedAt < cutoff) {
+						await archiveTodo(todosDir, id);
 					}
 				} catch {
 					// ignore unreadable todo
@@ -781,6 +2558,19 @@ async function garbageCollectTodos(todosDir: string, settings: TodoSettings): Pr
 	);
 }
 
+function getTodoArchiveDir(todosDir: string): string {
+	return path.join(todosDir, TODO_ARCHIVE_DIR_NAME);
+}
+
+async function archiveTodo(todosDir: string, id: string): Promise<void> {
+	const archiveDir = getTodoArchiveDir(todosDir);
+	await fs.mkdir(archiveDir, { recursive: true });
+	await fs.rename(getTodoPath(todosDir, id), getTodoPath(archiveDir, id));
+	await fs
+		.rename(getTodoHistoryPath(todosDir, id), getTodoHistoryPath(archiveDir, id))
+		.catch(() => undefined);
+}
+
 function getTodoPath(todosDir: string, id: string): string {
 	return path.join(todosDir, `${id}.md`);
 }
@@ -797,6 +2587,21 @@ function parseFrontMatter(text: string, idFallback: string): TodoFrontMatter {
 		status: "open",
 		created_at: "",
 		assigned_to_session: undefined,
+		depends_on: undefined,
+		blocks: undefined,
+		priority: undefined,
+		due: undefined,
+		estimate: undefined,
+		github_issue: undefined,
+		github_synced_at: undefined,
+		closed_at: undefined,
+		branch: undefined,
+		close_on_merge: undefined,
+		claimed_at: undefined,
+		time_spent_ms: undefined,
+		agent_time_ms: undefined,
+		cost_usd: undefined,
+		tokens: undefined,
 	};
 
 	const trimmed = text.trim();
@@ -815,6 +2620,45 @@ function parseFrontMatter(text: string, idFallback: string): TodoFrontMatter {
 		if (Array.isArray(parsed.tags)) {
 			data.tags = parsed.tags.filter((tag): tag is string => typeof tag === "string");
 		}
+		if (Array.isArray(parsed.depends_on)) {
+			const dependsOn = normalizeTodoIdList(parsed.depends_on);
+			if (dependsOn.length) data.depends_on = dependsOn;
+		}
+		if (Array.isArray(parsed.blocks)) {
+			const blocks = normalizeTodoIdList(parsed.blocks);
+			if (blocks.length) data.blocks = blocks;
+		}
+		if (typeof parsed.priority === "string") {
+			data.priority = normalizeTodoPriority(parsed.priority) ?? undefined;
+		}
+		if (typeof parsed.due === "string") {
+			data.due = normalizeTodoDue(parsed.due) ?? undefined;
+		}
+		if (typeof parsed.estimate === "string") {
+			data.estimate = normalizeTodoEstimate(parsed.estimate) ?? undefined;
+		}
+		if (typeof parsed.github_issue === "number" && Number.isInteger(parsed.github_issue)) {
+			data.github_issue = parsed.github_issue;
+		}
+		if (typeof parsed.github_synced_at === "string" && parsed.github_synced_at) {
+			data.github_synced_at = parsed.github_synced_at;
+		}
+		if (typeof parsed.closed_at === "string" && parsed.closed_at) {
+			data.closed_at = parsed.closed_at;
+		}
+		if (typeof parsed.branch === "string" && parsed.branch.trim()) {
+			data.branch = parsed.branch;
+		}
+		if (parsed.close_on_merge === true) data.close_on_merge = true;
+		if (typeof parsed.claimed_at === "string" && parsed.claimed_at) data.claimed_at = parsed.claimed_at;
+		if (typeof parsed.time_spent_ms === "number" && parsed.time_spent_ms > 0) {
+			data.time_spent_ms = Math.round(parsed.time_spent_ms);
+		}
+		if (typeof parsed.agent_time_ms === "number" && parsed.agent_time_ms > 0) {
+			data.agent_time_ms = Math.round(parsed.agent_time_ms);
+		}
+		if (typeof parsed.cost_usd === "number" && parsed.cost_usd > 0) data.cost_usd = parsed.cost_usd;
+		if (typeof parsed.tokens === "number" && parsed.tokens > 0) data.tokens = Math.round(parsed.tokens);
 	} catch {
 		return data;
 	}
@@ -883,12 +2727,9 @@ function parseTodoContent(content: string, idFallback: string): TodoRecord {
 	const { frontMatter, body } = splitFrontMatter(content);
 	const parsed = parseFrontMatter(frontMatter, idFallback);
 	return {
+		...parsed,
 		id: idFallback,
-		title: parsed.title,
 		tags: parsed.tags ?? [],
-		status: parsed.status,
-		created_at: parsed.created_at,
-		assigned_to_session: parsed.assigned_to_session,
 		body: body ?? "",
 	};
 }
@@ -902,6 +2743,21 @@ function serializeTodo(todo: TodoRecord): string {
 			status: todo.status,
 			created_at: todo.created_at,
 			assigned_to_session: todo.assigned_to_session || undefined,
+			depends_on: todo.depends_on?.length ? todo.depends_on : undefined,
+			blocks: todo.blocks?.length ? todo.blocks : undefined,
+			priority: todo.priority || undefined,
+			due: todo.due || undefined,
+			estimate: todo.estimate || undefined,
+			github_issue: todo.github_issue ?? undefined,
+			github_synced_at: todo.github_synced_at || undefined,
+			closed_at: todo.closed_at || undefined,
+			branch: todo.branch || undefined,
+			close_on_merge: todo.close_on_merge || undefined,
+			claimed_at: todo.claimed_at || undefined,
+			time_spent_ms: todo.time_spent_ms || undefined,
+			agent_time_ms: todo.agent_time_ms || undefined,
+			cost_usd: todo.cost_usd || undefined,
+			tokens: todo.tokens || undefined,
 		},
 		null,
 		2,
@@ -926,11 +2782,98 @@ async function writeTodoFile(filePath: string, todo: TodoRecord) {
 	await fs.writeFile(filePath, serializeTodo(todo), "utf8");
 }
 
+function getTodoHistoryPath(todosDir: string, id: string): string {
+	return path.join(todosDir, `${id}${TODO_HISTORY_SUFFIX}`);
+}
+
+function summarizeHistoryValue(value: unknown): unknown {
+	if (typeof value !== "string" || value.length <= HISTORY_VALUE_MAX_LENGTH) return value;
+	return `${value.slice(0, HISTORY_VALUE_MAX_LENGTH)}… (${value.length} chars)`;
+}
+
+function diffTodoRecords(
+	before: TodoRecord | null,
+	after: TodoRecord,
+): Record<string, { from?: unknown; to?: unknown }> {
+	const changes: Record<string, { from?: unknown; to?: unknown }> = {};
+	const previous = (before ?? {}) as Record<string, unknown>;
+	const next = after as unknown as Record<string, unknown>;
+	const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+	keys.delete("id");
+	for (const key of keys) {
+		const from = previous[key];
+		const to = next[key];
+		const isEmpty = (value: unknown) =>
+			value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+		if (isEmpty(from) && isEmpty(to)) continue;
+		if (JSON.stringify(from) === JSON.stringify(to)) continue;
+		changes[key] = { from: summarizeHistoryValue(from), to: summarizeHistoryValue(to) };
+	}
+	return changes;
+}
+
+/**
+ * Appends a history entry describing the change from `before` to `after`.
+ * Nothing is written when the change didn't touch any field.
+ */
+async function recordTodoHistory(
+	todosDir: string,
+	action: string,
+	before: TodoRecord | null,
+	after: TodoRecord,
+	ctx: ExtensionContext,
+): Promise<void> {
+	const changes = diffTodoRecords(before, after);
+	if (!Object.keys(changes).length) return;
+	const entry: TodoHistoryEntry = {
+		at: new Date().toISOString(),
+		session: ctx.sessionManager.getSessionId() ?? null,
+		action,
+		changes,
+	};
+	try {
+		await fs.appendFile(getTodoHistoryPath(todosDir, after.id), `${JSON.stringify(entry)}\n`, "utf8");
+	} catch {
+		// history is best effort; the todo itself was already written
+	}
+}
+
+async function readTodoHistory(todosDir: string, id: string): Promise<TodoHistoryEntry[]> {
+	let raw = "";
+	try {
+		raw = await fs.readFile(getTodoHistoryPath(todosDir, id), "utf8");
+	} catch {
+		return [];
+	}
+	const entries: TodoHistoryEntry[] = [];
+	for (const line of raw.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const parsed = JSON.parse(line) as Partial<TodoHistoryEntry>;
+			if (typeof parsed.at !== "string" || typeof parsed.action !== "string") continue;
+			entries.push({
+				at: parsed.at,
+				session: typeof parsed.session === "string" ? parsed.session : null,
+				action: parsed.action,
+				changes: parsed.changes && typeof parsed.changes === "object" ? parsed.changes : {},
+			});
+		} catch {
+			// ignore partially written lines
+		}
+	}
+	return entries;
+}
+
+async function removeTodoHistory(todosDir: string, id: string): Promise<void> {
+	await fs.unlink(getTodoHistoryPath(todosDir, id)).catch(() => undefined);
+}
+
 async function generateTodoId(todosDir: string): Promise<string> {
 	for (let attempt = 0; attempt < 10; attempt += 1) {
 		const id = crypto.randomBytes(4).toString("hex");
 		const todoPath = getTodoPath(todosDir, id);
-		if (!existsSync(todoPath)) return id;
+		// Archived ids stay reserved so history and references remain unambiguous.
+		if (!existsSync(todoPath) && !existsSync(getTodoPath(getTodoArchiveDir(todosDir), id))) return id;
 	}
 	throw new Error("Failed to generate unique todo id");
 }
@@ -944,10 +2887,274 @@ async function readLockInfo(lockPath: string): Promise<LockInfo | null> {
 	}
 }
 
-async function acquireLock(
-	todosDir: string,
+function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+	return typeof error === "object" && error !== null && "code" in error;
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to someone else.
+		return isErrnoException(error) && error.code === "EPERM";
+	}
+}
+
+/**
+ * Removes a lock whose owner is dead.  The lock is renamed aside first and only
+ * deleted if it is still the one judged dead; a lock another session took over
+ * in the meantime is put back.
+ */
+async function reclaimDeadLock(lockPath: string, dead: LockInfo): Promise<void> {
+	const aside = `${lockPath}.reclaim-${process.pid}`;
+	try {
+		await fs.rename(lockPath, aside);
+	} catch {
+		return;
+	}
+	const moved = await readLockInfo(aside);
+	if (!moved || moved.pid !== dead.pid || moved.created_at !== dead.created_at) {
+		// link() fails if the path was taken again, so this never clobbers a newer lock.
+		await fs.link(aside, lockPath).catch(() => undefined);
+	}
+	await fs.unlink(aside).catch(() => undefined);
+}
+
+function isLockOwnerAlive(info: LockInfo | null): boolean | null {
+	if (!info || !Number.isInteger(info.pid) || info.pid <= 0) return null;
+	if (info.hostname && info.hostname !== os.hostname()) return null;
+	return isProcessAlive(info.pid);
+}
+
+function formatElapsed(ms: number): string {
+	const seconds = Math.max(0, Math.floor(ms / 1000));
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 48) return `${hours}h`;
+	return `${Math.floor(hours / 24)}d`;
+}
+
+async function listTodoLocks(todosDir: string): Promise<TodoLockStatus[]> {
+	let entries: string[] = [];
+	try {
+		entries = await fs.readdir(todosDir);
+	} catch {
+		return [];
+	}
+
+	const now = Date.now();
+	const locks = await Promise.all(
+		entries
+			.filter((entry) => entry.endsWith(".lock"))
+			.map(async (entry): Promise<TodoLockStatus> => {
+				const id = entry.slice(0, -".lock".length);
+				const lockPath = path.join(todosDir, entry);
+				const info = await readLockInfo(lockPath);
+				const stats = await fs.stat(lockPath).catch(() => null);
+				const title = await readTodoFile(getTodoPath(todosDir, id), id)
+					.then((todo) => todo.title)
+					.catch(() => undefined);
+				return {
+					id,
+					lockPath,
+					info,
+					ageMs: stats ? now - stats.mtimeMs : 0,
+					alive: isLockOwnerAlive(info),
+					title,
+				};
+			}),
+	);
+	return locks.sort((a, b) => b.ageMs - a.ageMs);
+}
+
+function formatTodoLockStatus(lock: TodoLockStatus): string {
+	const pid = lock.info?.pid ? `pid ${lock.info.pid}` : "pid ?";
+	const liveness = lock.alive === null ? "unknown" : lock.alive ? "alive" : "dead";
+	const stale = lock.ageMs > LOCK_TTL_MS ? ", stale" : "";
+	const session = lock.info?.session ? ` • session ${lock.info.session}` : "";
+	return `${pid} (${liveness}${stale}) • ${formatElapsed(lock.ageMs)} old${session}`;
+}
+
+async function forceReleaseTodoLock(todosDir: string, id: string): Promise<{ error: string } | null> {
+	try {
+		await fs.unlink(getLockPath(todosDir, id));
+		return null;
+	} catch (error) {
+		if (isErrnoException(error) && error.code === "ENOENT") return null;
+		const message = error instanceof Error ? error.message : String(error);
+		return { error: `Failed to release lock for ${displayTodoId(id)}: ${message}` };
+	}
+}
+
+function checkTodoFrontMatter(content: string): string | null {
+	if (!content.startsWith("{")) return "Missing JSON front matter";
+	const endIndex = findJsonObjectEnd(content);
+	if (endIndex === -1) return "Unterminated JSON front matter";
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content.slice(0, endIndex + 1));
+	} catch (error) {
+		return `Invalid JSON front matter: ${error instanceof Error ? error.message : String(error)}`;
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return "Front matter is not a JSON object";
+	return null;
+}
+
+/**
+ * Finds the problems parseFrontMatter and listTodos paper over.  `knownSessions`
+ * is null when the session list could not be read, which skips the
+ * dead-session check rather than flagging every assignment.
+ */
+async function diagnoseTodos(
+	todosDir: string,
+	settings: TodoSettings,
+	knownSessions: Set<string> | null,
+): Promise<TodoDoctorIssue[]> {
+	let entries: string[] = [];
+	try {
+		entries = await fs.readdir(todosDir);
+	} catch {
+		return [];
+	}
+
+	const issues: TodoDoctorIssue[] = [];
+	const filesById = new Map<string, string[]>();
+	for (const entry of entries.filter((name) => name.endsWith(".md")).sort()) {
+		const id = entry.slice(0, -3);
+		let content: string;
+		try {
+			content = await fs.readFile(path.join(todosDir, entry), "utf8");
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			issues.push({ kind: "malformed", id, message: `Unreadable: ${message}` });
+			continue;
+		}
+		const problem = checkTodoFrontMatter(content);
+		if (problem) {
+			issues.push({
+				kind: "malformed",
+				id,
+				message: problem,
+				repair: "rewrite the front matter, keeping the original text as the body",
+			});
+			continue;
+		}
+
+		const raw = JSON.parse(splitFrontMatter(content).frontMatter) as Record<string, unknown>;
+		const rawId = typeof raw.id === "string" ? validateTodoId(raw.id) : null;
+		const frontMatterId = rawId && !("error" in rawId) ? rawId.id : "";
+		filesById.set(frontMatterId, [...(filesById.get(frontMatterId) ?? []), id]);
+
+		const status = typeof raw.status === "string" ? raw.status.trim() : "";
+		const knownStatus =
+			!settings.statuses.length || settings.statuses.some((entry) => entry.toLowerCase() === status.toLowerCase());
+		if (!status || !knownStatus) {
+			issues.push({
+				kind: "invalid-status",
+				id,
+				message: status ? `Unknown status "${status}"` : "Missing status",
+				repair: "reset the status to open",
+			});
+		}
+
+		const session = typeof raw.assigned_to_session === "string" ? raw.assigned_to_session.trim() : "";
+		if (session && knownSessions && !knownSessions.has(session)) {
+			issues.push({
+				kind: "dead-session",
+				id,
+				message: `Assigned to session ${session}, which no longer exists`,
+				repair: "release the assignment",
+			});
+		}
+	}
+
+	for (const [frontMatterId, ids] of filesById) {
+		for (const id of ids) {
+			if (id === frontMatterId) continue;
+			const others = ids.filter((other) => other !== id).map(formatTodoId);
+			const message = !frontMatterId
+				? "Front matter has no valid id"
+				: others.length
+					? `Front matter id ${formatTodoId(frontMatterId)} is also used by ${others.join(", ")}`
+					: `Front matter id ${formatTodoId(frontMatterId)} does not match the file name`;
+			issues.push({ kind: "duplicate-id", id, message, repair: "set the front matter id to the file name" });
+		}
+	}
+
+	for (const lock of await listTodoLocks(todosDir)) {
+		if (!existsSync(getTodoPath(todosDir, lock.id))) {
+			issues.push({ kind: "orphan-lock", id: lock.id, message: "Lock for a missing todo", repair: "delete the lock" });
+		} else if (lock.alive === false) {
+			issues.push({
+				kind: "orphan-lock",
+				id: lock.id,
+				message: `Lock held by pid ${lock.info?.pid}, which is no longer running`,
+				repair: "delete the lock",
+			});
+		}
+	}
+
+	return issues;
+}
+
+async function repairTodoIssue(
+	todosDir: string,
+	issue: TodoDoctorIssue,
+	settings: TodoSettings,
+	ctx: ExtensionContext,
+): Promise<{ error: string } | null> {
+	if (!issue.repair) return { error: `${formatTodoId(issue.id)} needs a manual fix: ${issue.message}` };
+	if (issue.kind === "orphan-lock") return forceReleaseTodoLock(todosDir, issue.id);
+
+	const filePath = getTodoPath(todosDir, issue.id);
+	const result = await withTodoLock(todosDir, issue.id, ctx, async () => {
+		if (issue.kind === "malformed") {
+			const content = await fs.readFile(filePath, "utf8");
+			const stats = await fs.stat(filePath);
+			const recovered: TodoRecord = {
+				id: issue.id,
+				title: `Recovered ${formatTodoId(issue.id)}`,
+				tags: [],
+				status: "open",
+				created_at: stats.mtime.toISOString(),
+				body: content,
+			};
+			await writeTodoFile(filePath, recovered);
+			await recordTodoHistory(todosDir, "doctor", null, recovered, ctx);
+			return null;
+		}
+
+		// readTodoFile already takes the id from the file name, so writing back fixes duplicate ids.
+		const existing = await readTodoFile(filePath, issue.id);
+		const before = structuredClone(existing);
+		if (issue.kind === "invalid-status") {
+			existing.status =
+				settings.statuses.find((status) => !isTodoClosed(status, settings.terminalStatuses)) ?? "open";
+			applyClosedState(existing, settings.terminalStatuses);
+		}
+		if (issue.kind === "dead-session") {
+			stopTodoClock(existing);
+			existing.assigned_to_session = undefined;
+		}
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "doctor", before, existing, ctx);
+		return null;
+	});
+	return result && "error" in result ? result : null;
+}
+
+/**
+ * Creates the lock file for a todo.  A stale lock is only stolen after the user
+ * confirms; with `interactive` off the attempt fails instead of prompting.
+ */
+async function acquireLock(
+	todosDir: string,
 	id: string,
 	ctx: ExtensionContext,
+	interactive = true,
 ): Promise<(() => Promise<void>) | { error: string }> {
 	const lockPath = getLockPath(todosDir, id);
 	const now = Date.now();
@@ -959,6 +3166,7 @@ async function acquireLock(
 			const info: LockInfo = {
 				id,
 				pid: process.pid,
+				hostname: os.hostname(),
 				session,
 				created_at: new Date(now).toISOString(),
 			};
@@ -975,14 +3183,19 @@ async function acquireLock(
 			if (error?.code !== "EEXIST") {
 				return { error: `Failed to acquire lock: ${error?.message ?? "unknown error"}` };
 			}
+			const info = await readLockInfo(lockPath);
+			if (attempt === 0 && info && isLockOwnerAlive(info) === false) {
+				// The owning process is gone, so the lock can never be released normally.
+				await reclaimDeadLock(lockPath, info);
+				continue;
+			}
 			const stats = await fs.stat(lockPath).catch(() => null);
 			const lockAge = stats ? now - stats.mtimeMs : LOCK_TTL_MS + 1;
 			if (lockAge <= LOCK_TTL_MS) {
-				const info = await readLockInfo(lockPath);
 				const owner = info?.session ? ` (session ${info.session})` : "";
 				return { error: `Todo ${displayTodoId(id)} is locked${owner}. Try again later.` };
 			}
-			if (!ctx.hasUI) {
+			if (!ctx.hasUI || !interactive) {
 				return { error: `Todo ${displayTodoId(id)} lock is stale; rerun in interactive mode to steal it.` };
 			}
 			const ok = await ctx.ui.confirm(
@@ -1004,8 +3217,9 @@ async function withTodoLock<T>(
 	id: string,
 	ctx: ExtensionContext,
 	fn: () => Promise<T>,
+	interactive = true,
 ): Promise<T | { error: string }> {
-	const lock = await acquireLock(todosDir, id, ctx);
+	const lock = await acquireLock(todosDir, id, ctx, interactive);
 	if (typeof lock === "object" && "error" in lock) return lock;
 	try {
 		return await fn();
@@ -1014,6 +3228,30 @@ async function withTodoLock<T>(
 	}
 }
 
+function watchTodosDir(todosDir: string, onChange: () => void): () => void {
+	let watcher: FSWatcher;
+	try {
+		watcher = watch(todosDir);
+	} catch {
+		return () => {};
+	}
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	watcher.on("change", (_event, filename) => {
+		// Lock churn accompanies every write; the .md change that follows is what matters.
+		if (typeof filename === "string" && !filename.endsWith(".md")) return;
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(() => {
+			timer = null;
+			onChange();
+		}, TODO_WATCH_DEBOUNCE_MS);
+	});
+	watcher.on("error", () => watcher.close());
+	return () => {
+		if (timer) clearTimeout(timer);
+		watcher.close();
+	};
+}
+
 async function listTodos(todosDir: string): Promise<TodoFrontMatter[]> {
 	let entries: string[] = [];
 	try {
@@ -1029,22 +3267,55 @@ async function listTodos(todosDir: string): Promise<TodoFrontMatter[]> {
 		const filePath = path.join(todosDir, entry);
 		try {
 			const content = await fs.readFile(filePath, "utf8");
-			const { frontMatter } = splitFrontMatter(content);
+			const { frontMatter, body } = splitFrontMatter(content);
 			const parsed = parseFrontMatter(frontMatter, id);
-			todos.push({
-				id,
-				title: parsed.title,
-				tags: parsed.tags ?? [],
-				status: parsed.status,
-				created_at: parsed.created_at,
-				assigned_to_session: parsed.assigned_to_session,
-			});
+			todos.push({ ...parsed, id, tags: parsed.tags ?? [], checklist: summarizeChecklist(body) });
+		} catch {
+			// ignore unreadable todo
+		}
+	}
+
+	return sortTodos(todos, (await readTodoSettings(todosDir)).terminalStatuses);
+}
+
+async function listTodoRecords(todosDir: string): Promise<TodoRecord[]> {
+	let entries: string[] = [];
+	try {
+		entries = await fs.readdir(todosDir);
+	} catch {
+		return [];
+	}
+
+	const todos: TodoRecord[] = [];
+	for (const entry of entries) {
+		if (!entry.endsWith(".md")) continue;
+		const id = entry.slice(0, -3);
+		try {
+			todos.push(await readTodoFile(path.join(todosDir, entry), id));
 		} catch {
 			// ignore unreadable todo
 		}
 	}
 
-	return sortTodos(todos);
+	return sortTodos(todos, (await readTodoSettings(todosDir)).terminalStatuses);
+}
+
+async function listTodosFromSources(sources: TodoSource[]): Promise<TodoFrontMatter[]> {
+	if (sources.length === 1) return listTodos(sources[0].dir);
+	const todos: TodoFrontMatter[] = [];
+	for (const source of sources) {
+		for (const todo of await listTodos(source.dir)) todos.push({ ...todo, source: source.label });
+	}
+	return sortTodos(todos, readTerminalStatuses(sources));
+}
+
+async function listTodoRecordsFromSources(sources: TodoSource[]): Promise<TodoRecord[]> {
+	if (sources.length === 1) return listTodoRecords(sources[0].dir);
+	const todos: TodoRecord[] = [];
+	for (const source of sources) {
+		for (const todo of await listTodoRecords(source.dir)) todos.push({ ...todo, source: source.label });
+	}
+	return sortTodos(todos, readTerminalStatuses(sources));
 }
 
 function listTodosSync(todosDir: string): TodoFrontMatter[] {
@@ -1062,22 +3333,15 @@ function listTodosSync(todosDir: string): TodoFrontMatter[] {
 		const filePath = path.join(todosDir, entry);
 		try {
 			const content = readFileSync(filePath, "utf8");
-			const { frontMatter } = splitFrontMatter(content);
+			const { frontMatter, body } = splitFrontMatter(content);
 			const parsed = parseFrontMatter(frontMatter, id);
-			todos.push({
-				id,
-				title: parsed.title,
-				tags: parsed.tags ?? [],
-				status: parsed.status,
-				created_at: parsed.created_at,
-				assigned_to_session: parsed.assigned_to_session,
-			});
+			todos.push({ ...parsed, id, tags: parsed.tags ?? [], checklist: summarizeChecklist(body) });
 		} catch {
 			// ignore
 		}
 	}
 
-	return sortTodos(todos);
+	return sortTodos(todos, readTodoSettingsSync(todosDir).terminalStatuses);
 }
 
 function getTodoTitle(todo: TodoFrontMatter): string {
@@ -1104,9 +3368,60 @@ function renderAssignmentSuffix(
 	return theme.fg(color, ` (assigned: ${todo.assigned_to_session}${suffix})`);
 }
 
+function renderPriorityBadge(theme: Theme, todo: TodoFrontMatter): string {
+	if (!todo.priority) return "";
+	const color = todo.priority === "p0" ? "error" : todo.priority === "p1" ? "warning" : "muted";
+	return theme.fg(color, `${todo.priority} `);
+}
+
+function renderChecklistProgress(theme: Theme, progress: TodoChecklistProgress | undefined): string {
+	if (!progress) return "";
+	const color = progress.done === progress.total ? "success" : "muted";
+	return theme.fg(color, formatChecklistProgress(progress));
+}
+
+function renderCostSuffix(theme: Theme, todo: TodoFrontMatter): string {
+	return todo.cost_usd ? theme.fg("dim", ` ${formatUsd(todo.cost_usd)}`) : "";
+}
+
+function renderDueSuffix(theme: Theme, todo: TodoFrontMatter, terminalStatuses: readonly string[]): string {
+	if (!todo.due) return "";
+	const color = isTodoOverdue(todo, terminalStatuses) ? "error" : "dim";
+	return theme.fg(color, ` (due ${todo.due})`);
+}
+
+function renderPlanningSuffix(theme: Theme, todo: TodoFrontMatter, terminalStatuses: readonly string[]): string {
+	const parts: string[] = [];
+	if (todo.priority) parts.push(todo.priority);
+	if (todo.due) parts.push(`due ${todo.due}`);
+	if (todo.estimate) parts.push(`est. ${todo.estimate}`);
+	if (!parts.length) return "";
+	const color = isTodoOverdue(todo, terminalStatuses) ? "error" : "muted";
+	return theme.fg("muted", " • ") + theme.fg(color, parts.join(", "));
+}
+
+function formatHistoryValue(value: unknown): string {
+	if (value === undefined || value === null || value === "") return "∅";
+	if (Array.isArray(value)) return value.length ? value.join(", ") : "∅";
+	return String(value).replace(/\s+/g, " ");
+}
+
+function formatTodoHistoryEntry(entry: TodoHistoryEntry): string {
+	const timestamp = entry.at.replace("T", " ").replace(/\.\d+Z$/, "Z");
+	const changes = Object.entries(entry.changes).map(([field, change]) =>
+		field === "body"
+			? "body edited"
+			: `${field}: ${formatHistoryValue(change.from)} → ${formatHistoryValue(change.to)}`,
+	);
+	const session = entry.session ? ` (session ${entry.session})` : "";
+	return `${timestamp} ${entry.action}${changes.length ? ` — ${changes.join("; ")}` : ""}${session}`;
+}
+
 function formatTodoHeading(todo: TodoFrontMatter): string {
 	const tagText = todo.tags.length ? ` [${todo.tags.join(", ")}]` : "";
-	return `${formatTodoId(todo.id)} ${getTodoTitle(todo)}${tagText}${formatAssignmentSuffix(todo)}`;
+	const costText = todo.cost_usd ? ` ${formatUsd(todo.cost_usd)}` : "";
+	const sourceText = todo.source ? `${todo.source} ` : "";
+	return `${sourceText}${formatTodoId(todo.id)} ${getTodoTitle(todo)}${tagText}${formatAssignmentSuffix(todo)}${costText}`;
 }
 
 function buildRefinePrompt(todoId: string, title: string): string {
@@ -1117,7 +3432,19 @@ function buildRefinePrompt(todoId: string, title: string): string {
 	);
 }
 
-function splitTodosByAssignment(todos: TodoFrontMatter[]): {
+function buildBulkWorkPrompt(todos: TodoFrontMatter[]): string {
+	const list = todos.map((todo) => `- ${formatTodoId(todo.id)} "${getTodoTitle(todo)}"`).join("\n");
+	return (
+		`let's work on these ${todos.length} todos:\n${list}\n\n` +
+		"Claim each todo before starting on it and release or close it when done. " +
+		"Work through them one at a time, respecting dependencies between them, and tell me which order you picked.\n\n"
+	);
+}
+
+function splitTodosByAssignment(
+	todos: TodoFrontMatter[],
+	terminalStatuses: readonly string[],
+): {
 	assignedTodos: TodoFrontMatter[];
 	openTodos: TodoFrontMatter[];
 	closedTodos: TodoFrontMatter[];
@@ -1126,7 +3453,7 @@ function splitTodosByAssignment(todos: TodoFrontMatter[]): {
 	const openTodos: TodoFrontMatter[] = [];
 	const closedTodos: TodoFrontMatter[] = [];
 	for (const todo of todos) {
-		if (isTodoClosed(getTodoStatus(todo))) {
+		if (isTodoClosed(getTodoStatus(todo), terminalStatuses)) {
 			closedTodos.push(todo);
 			continue;
 		}
@@ -1139,10 +3466,10 @@ function splitTodosByAssignment(todos: TodoFrontMatter[]): {
 	return { assignedTodos, openTodos, closedTodos };
 }
 
-function formatTodoList(todos: TodoFrontMatter[]): string {
+function formatTodoList(todos: TodoFrontMatter[], terminalStatuses: readonly string[]): string {
 	if (!todos.length) return "No todos.";
 
-	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos);
+	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos, terminalStatuses);
 	const lines: string[] = [];
 	const pushSection = (label: string, sectionTodos: TodoFrontMatter[]) => {
 		lines.push(`${label} (${sectionTodos.length}):`);
@@ -1166,11 +3493,16 @@ function serializeTodoForAgent(todo: TodoRecord): string {
 	return JSON.stringify(payload, null, 2);
 }
 
-function serializeTodoListForAgent(todos: TodoFrontMatter[]): string {
-	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos);
+function serializeTodoListForAgent(
+	todos: TodoFrontMatter[],
+	terminalStatuses: readonly string[],
+	page?: { total: number; offset: number; limit?: number },
+): string {
+	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos, terminalStatuses);
 	const mapTodo = (todo: TodoFrontMatter) => ({ ...todo, id: formatTodoId(todo.id) });
 	return JSON.stringify(
 		{
+			...(page ? { total: page.total, offset: page.offset, limit: page.limit } : {}),
 			assigned: assignedTodos.map(mapTodo),
 			open: openTodos.map(mapTodo),
 			closed: closedTodos.map(mapTodo),
@@ -1180,17 +3512,77 @@ function serializeTodoListForAgent(todos: TodoFrontMatter[]): string {
 	);
 }
 
-function renderTodoHeading(theme: Theme, todo: TodoFrontMatter, currentSessionId?: string): string {
-	const closed = isTodoClosed(getTodoStatus(todo));
+/**
+ * Applies the agent-facing `query`/`limit`/`offset` parameters.  Paging runs
+ * over the same assigned → open → closed order the serialized list uses.
+ */
+async function queryTodosForAgent(
+	sources: TodoSource[],
+	todos: TodoFrontMatter[],
+	params: { query?: string; limit?: number; offset?: number },
+	terminalStatuses: readonly string[],
+	currentSessionId?: string,
+): Promise<
+	| { todos: TodoFrontMatter[]; page?: { total: number; offset: number; limit?: number } }
+	| { error: string }
+> {
+	let matching = todos;
+	const query = params.query?.trim();
+	if (query) {
+		const parsed = parseTodoQuery(query, terminalStatuses, currentSessionId);
+		if (parsed.invalid.length) {
+			return {
+				error: `Invalid query filter ${parsed.invalid.join(", ")}. Supported fields: ${TODO_QUERY_FIELDS.join(", ")}.`,
+			};
+		}
+		if (parsed.usesBody) {
+			const sourceKey = (todo: TodoFrontMatter) => `${todo.source ?? ""}:${todo.id}`;
+			const keys = new Set(todos.map(sourceKey));
+			const records = await listTodoRecordsFromSources(sources);
+			matching = filterTodos(
+				records.filter((record) => keys.has(sourceKey(record))),
+				query,
+				terminalStatuses,
+				currentSessionId,
+			).map(({ body: _body, ...frontMatter }) => frontMatter);
+		} else {
+			matching = filterTodos(todos, query, terminalStatuses, currentSessionId);
+		}
+	}
+
+	if (!query && params.limit === undefined && params.offset === undefined) {
+		return { todos: matching };
+	}
+
+	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(matching, terminalStatuses);
+	const ordered = [...assignedTodos, ...openTodos, ...closedTodos];
+	const offset = Math.max(0, Math.floor(params.offset ?? 0));
+	const limit = params.limit === undefined ? undefined : Math.max(0, Math.floor(params.limit));
+	const paged = ordered.slice(offset, limit === undefined ? undefined : offset + limit);
+	return { todos: paged, page: { total: ordered.length, offset, limit } };
+}
+
+function renderTodoHeading(
+	theme: Theme,
+	todo: TodoFrontMatter,
+	terminalStatuses: readonly string[],
+	currentSessionId?: string,
+): string {
+	const closed = isTodoClosed(getTodoStatus(todo), terminalStatuses);
 	const titleColor = closed ? "dim" : "text";
 	const tagText = todo.tags.length ? theme.fg("dim", ` [${todo.tags.join(", ")}]`) : "";
 	const assignmentText = renderAssignmentSuffix(theme, todo, currentSessionId);
 	return (
+		(todo.source ? theme.fg("muted", `${todo.source} `) : "") +
 		theme.fg("accent", formatTodoId(todo.id)) +
 		" " +
+		renderPriorityBadge(theme, todo) +
 		theme.fg(titleColor, getTodoTitle(todo)) +
+		renderChecklistProgress(theme, getChecklistProgress(todo)) +
 		tagText +
-		assignmentText
+		assignmentText +
+		renderDueSuffix(theme, todo, terminalStatuses) +
+		renderCostSuffix(theme, todo)
 	);
 }
 
@@ -1198,11 +3590,12 @@ function renderTodoList(
 	theme: Theme,
 	todos: TodoFrontMatter[],
 	expanded: boolean,
+	terminalStatuses: readonly string[],
 	currentSessionId?: string,
 ): string {
 	if (!todos.length) return theme.fg("dim", "No todos");
 
-	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos);
+	const { assignedTodos, openTodos, closedTodos } = splitTodosByAssignment(todos, terminalStatuses);
 	const lines: string[] = [];
 	const pushSection = (label: string, sectionTodos: TodoFrontMatter[]) => {
 		lines.push(theme.fg("muted", `${label} (${sectionTodos.length})`));
@@ -1212,7 +3605,7 @@ function renderTodoList(
 		}
 		const maxItems = expanded ? sectionTodos.length : Math.min(sectionTodos.length, 3);
 		for (let i = 0; i < maxItems; i++) {
-			lines.push(`  ${renderTodoHeading(theme, sectionTodos[i], currentSessionId)}`);
+			lines.push(`  ${renderTodoHeading(theme, sectionTodos[i], terminalStatuses, currentSessionId)}`);
 		}
 		if (!expanded && sectionTodos.length > maxItems) {
 			lines.push(theme.fg("dim", `  ... ${sectionTodos.length - maxItems} more`));
@@ -1233,8 +3626,13 @@ function renderTodoList(
 	return lines.join("\n");
 }
 
-function renderTodoDetail(theme: Theme, todo: TodoRecord, expanded: boolean): string {
-	const summary = renderTodoHeading(theme, todo);
+function renderTodoDetail(
+	theme: Theme,
+	todo: TodoRecord,
+	expanded: boolean,
+	terminalStatuses: readonly string[],
+): string {
+	const summary = renderTodoHeading(theme, todo, terminalStatuses);
 	if (!expanded) return summary;
 
 	const tags = todo.tags.length ? todo.tags.join(", ") : "none";
@@ -1242,11 +3640,26 @@ function renderTodoDetail(theme: Theme, todo: TodoRecord, expanded: boolean): st
 	const bodyText = todo.body?.trim() ? todo.body.trim() : "No details yet.";
 	const bodyLines = bodyText.split("\n");
 
+	const dependsOn = todo.depends_on?.length ? todo.depends_on.map(formatTodoId).join(", ") : "none";
+	const blocks = todo.blocks?.length ? todo.blocks.map(formatTodoId).join(", ") : "none";
+
 	const lines = [
 		summary,
 		theme.fg("muted", `Status: ${getTodoStatus(todo)}`),
 		theme.fg("muted", `Tags: ${tags}`),
 		theme.fg("muted", `Created: ${createdAt}`),
+		theme.fg("muted", `Priority: ${todo.priority ?? "none"}`),
+		theme.fg("muted", `Due: ${todo.due ?? "none"}`),
+		theme.fg("muted", `Estimate: ${todo.estimate ?? "none"}`),
+		theme.fg("muted", `Depends on: ${dependsOn}`),
+		theme.fg("muted", `Blocks: ${blocks}`),
+		theme.fg("muted", `Branch: ${todo.branch ?? "none"}${todo.close_on_merge ? " (closes on merge)" : ""}`),
+		theme.fg(
+			"muted",
+			`Time: ${formatDurationMs(getTodoTimeSpentMs(todo))} claimed` +
+				` (${formatDurationMs(todo.agent_time_ms ?? 0)} agent)${todo.claimed_at ? " • running" : ""}`,
+		),
+		theme.fg("muted", `Cost: ${formatUsd(todo.cost_usd ?? 0)} (${todo.tokens ?? 0} tokens)`),
 		"",
 		theme.fg("muted", "Body:"),
 		...bodyLines.map((line) => theme.fg("text", `  ${line}`)),
@@ -1271,6 +3684,173 @@ async function appendTodoBody(filePath: string, todo: TodoRecord, text: string):
 	return todo;
 }
 
+async function createTodo(
+	todosDir: string,
+	input: TodoCreateInput,
+	ctx: ExtensionContext,
+): Promise<TodoRecord | { error: string }> {
+	const dependsOn = resolveTodoIdList(input.depends_on ?? []);
+	if ("error" in dependsOn) return { error: dependsOn.error };
+	const blocks = resolveTodoIdList(input.blocks ?? []);
+	if ("error" in blocks) return { error: blocks.error };
+	const settings = await readTodoSettings(todosDir);
+	const status = input.status ?? settings.statuses[0] ?? "open";
+	const statusError = validateStatusTransition(settings, null, status);
+	if (statusError) return statusError;
+
+	await ensureTodosDir(todosDir);
+	const id = await generateTodoId(todosDir);
+	const filePath = getTodoPath(todosDir, id);
+	const todo: TodoRecord = {
+		id,
+		title: input.title,
+		tags: input.tags ?? [],
+		status,
+		created_at: new Date().toISOString(),
+		depends_on: dependsOn.ids,
+		blocks: blocks.ids,
+		body: input.body ?? "",
+	};
+	applyClosedState(todo, settings.terminalStatuses);
+	const fieldError = applyTodoPlanningFields(todo, input);
+	if (fieldError) return fieldError;
+
+	const result = await withTodoLock(todosDir, id, ctx, async () => {
+		const dependencyError = validateTodoDependencies(todo, await listTodos(todosDir));
+		if (dependencyError) return dependencyError;
+		await writeTodoFile(filePath, todo);
+		await recordTodoHistory(todosDir, "create", null, todo, ctx);
+		return todo;
+	});
+
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+/** Creation order for plan items so each item's dependencies exist before it does. */
+export function orderTodoPlanItems(items: TodoPlanItem[]): { order: number[] } | { error: string } {
+	const edges = new Map<number, number[]>();
+	for (const [index, item] of items.entries()) {
+		if (!item.title?.trim()) return { error: `Plan item ${index + 1} needs a title` };
+		const deps: number[] = [];
+		for (const dep of item.depends_on ?? []) {
+			if (typeof dep !== "number") continue;
+			if (!Number.isInteger(dep) || dep < 1 || dep > items.length || dep === index + 1) {
+				return { error: `Plan item ${index + 1} depends on invalid item ${dep}` };
+			}
+			deps.push(dep - 1);
+		}
+		edges.set(index, deps);
+	}
+
+	const order: number[] = [];
+	const placed = new Set<number>();
+	while (order.length < items.length) {
+		const next = items.findIndex(
+			(_item, index) => !placed.has(index) && (edges.get(index) ?? []).every((dep) => placed.has(dep)),
+		);
+		if (next === -1) {
+			const cycle = items.map((_item, index) => index + 1).filter((position) => !placed.has(position - 1));
+			return { error: `Plan items ${cycle.join(", ")} depend on each other` };
+		}
+		placed.add(next);
+		order.push(next);
+	}
+	return { order };
+}
+
+/** Removes dropped items and renumbers the item references of the rest. */
+function dropTodoPlanItems(items: TodoPlanItem[], dropped: Set<number>): TodoPlanItem[] {
+	const positions = new Map<number, number>();
+	for (const [index] of items.entries()) {
+		if (!dropped.has(index)) positions.set(index + 1, positions.size + 1);
+	}
+	return items
+		.filter((_item, index) => !dropped.has(index))
+		.map((item) => ({
+			...item,
+			depends_on: item.depends_on
+				?.map((dep) => (typeof dep === "number" ? positions.get(dep) : dep))
+				.filter((dep): dep is number | string => dep !== undefined),
+		}));
+}
+
+/**
+ * Creates plan items and a parent todo that depends on all of them.  Everything
+ * is validated up front and already-created todos are deleted again if a later
+ * write fails; any that cannot be removed are named in the error.
+ */
+async function createTodoPlan(
+	todosDir: string,
+	goal: string,
+	items: TodoPlanItem[],
+	parentInput: { tags?: string[]; body?: string },
+	ctx: ExtensionContext,
+): Promise<{ parent: TodoRecord; children: TodoRecord[] } | { error: string }> {
+	if (!goal.trim()) return { error: "goal required" };
+	if (!items.length) return { error: "items required" };
+	const ordered = orderTodoPlanItems(items);
+	if ("error" in ordered) return ordered;
+	for (const [index, item] of items.entries()) {
+		for (const dep of item.depends_on ?? []) {
+			if (typeof dep === "number") continue;
+			const validated = validateTodoId(dep);
+			if ("error" in validated) return { error: `Plan item ${index + 1}: ${validated.error}` };
+			if (!existsSync(getTodoPath(todosDir, validated.id))) {
+				return { error: `Plan item ${index + 1} depends on ${displayTodoId(dep)}, which does not exist` };
+			}
+		}
+	}
+
+	const created = new Map<number, TodoRecord>();
+	const rollback = async (error: string) => {
+		const leftover: string[] = [];
+		for (const todo of created.values()) {
+			const result = await deleteTodo(todosDir, todo.id, ctx).catch(() => ({ error: "delete failed" }));
+			if ("error" in result) leftover.push(formatTodoId(todo.id));
+		}
+		if (leftover.length) {
+			const ids = leftover.join(", ");
+			return { error: `Plan not created: ${error}; could not remove ${ids}, delete them by hand` };
+		}
+		return { error: `Plan not created: ${error}` };
+	};
+	for (const index of ordered.order) {
+		const item = items[index];
+		const result = await createTodo(
+			todosDir,
+			{
+				title: item.title.trim(),
+				tags: item.tags,
+				body: item.body,
+				depends_on: (item.depends_on ?? []).map((dep) =>
+					typeof dep === "number" ? (created.get(dep - 1)?.id ?? "") : dep,
+				),
+			},
+			ctx,
+		);
+		if ("error" in result) return rollback(result.error);
+		created.set(index, result);
+	}
+
+	const children = items.map((_item, index) => created.get(index)).filter((todo): todo is TodoRecord => !!todo);
+	const parent = await createTodo(
+		todosDir,
+		{
+			title: goal.trim(),
+			tags: parentInput.tags,
+			body: parentInput.body,
+			depends_on: children.map((todo) => todo.id),
+		},
+		ctx,
+	);
+	if ("error" in parent) return rollback(parent.error);
+	return { parent, children };
+}
+
 async function updateTodoStatus(
 	todosDir: string,
 	id: string,
@@ -1286,13 +3866,18 @@ async function updateTodoStatus(
 	if (!existsSync(filePath)) {
 		return { error: `Todo ${displayTodoId(id)} not found` };
 	}
+	const settings = await readTodoSettings(todosDir);
 
 	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
 		const existing = await ensureTodoExists(filePath, normalizedId);
 		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		const transitionError = validateStatusTransition(settings, getTodoStatus(existing), status);
+		if (transitionError) return transitionError;
+		const before = structuredClone(existing);
 		existing.status = status;
-		clearAssignmentIfClosed(existing);
+		applyClosedState(existing, settings.terminalStatuses);
 		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "status", before, existing, ctx);
 		return existing;
 	});
 
@@ -1303,11 +3888,11 @@ async function updateTodoStatus(
 	return result;
 }
 
-async function claimTodoAssignment(
+async function updateTodoPlanning(
 	todosDir: string,
 	id: string,
+	fields: { priority?: string; due?: string; estimate?: string },
 	ctx: ExtensionContext,
-	force = false,
 ): Promise<TodoRecord | { error: string }> {
 	const validated = validateTodoId(id);
 	if ("error" in validated) {
@@ -1318,23 +3903,15 @@ async function claimTodoAssignment(
 	if (!existsSync(filePath)) {
 		return { error: `Todo ${displayTodoId(id)} not found` };
 	}
-	const sessionId = ctx.sessionManager.getSessionId();
+
 	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
 		const existing = await ensureTodoExists(filePath, normalizedId);
 		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
-		if (isTodoClosed(existing.status)) {
-			return { error: `Todo ${displayTodoId(id)} is closed` } as const;
-		}
-		const assigned = existing.assigned_to_session;
-		if (assigned && assigned !== sessionId && !force) {
-			return {
-				error: `Todo ${displayTodoId(id)} is already assigned to session ${assigned}. Use force to override.`,
-			} as const;
-		}
-		if (assigned !== sessionId) {
-			existing.assigned_to_session = sessionId;
-			await writeTodoFile(filePath, existing);
-		}
+		const before = structuredClone(existing);
+		const fieldError = applyTodoPlanningFields(existing, fields);
+		if (fieldError) return fieldError;
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "update", before, existing, ctx);
 		return existing;
 	});
 
@@ -1345,14 +3922,196 @@ async function claimTodoAssignment(
 	return result;
 }
 
-async function releaseTodoAssignment(
-	todosDir: string,
-	id: string,
-	ctx: ExtensionContext,
-	force = false,
-): Promise<TodoRecord | { error: string }> {
-	const validated = validateTodoId(id);
-	if ("error" in validated) {
+function applyTagEdit(tags: string[], edit: string): string[] {
+	// "a, b" replaces the tags; "+a -b" adds and removes instead.
+	const tokens = edit
+		.split(/[\s,]+/)
+		.map((token) => token.trim())
+		.filter(Boolean);
+	if (!tokens.some((token) => token.startsWith("+") || token.startsWith("-"))) {
+		return [...new Set(tokens)];
+	}
+	const next = new Set(tags);
+	for (const token of tokens) {
+		if (token.startsWith("-")) {
+			next.delete(token.slice(1));
+		} else {
+			const tag = token.replace(/^\+/, "");
+			if (tag) next.add(tag);
+		}
+	}
+	return [...next];
+}
+
+async function updateTodoTags(
+	todosDir: string,
+	id: string,
+	edit: string,
+	ctx: ExtensionContext,
+): Promise<TodoRecord | { error: string }> {
+	const validated = validateTodoId(id);
+	if ("error" in validated) {
+		return { error: validated.error };
+	}
+	const normalizedId = validated.id;
+	const filePath = getTodoPath(todosDir, normalizedId);
+	if (!existsSync(filePath)) {
+		return { error: `Todo ${displayTodoId(id)} not found` };
+	}
+
+	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
+		const existing = await ensureTodoExists(filePath, normalizedId);
+		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		const before = structuredClone(existing);
+		existing.tags = applyTagEdit(existing.tags, edit);
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "update", before, existing, ctx);
+		return existing;
+	});
+
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+async function setTodoChecklistItem(
+	todosDir: string,
+	id: string,
+	item: number | string,
+	checked: boolean,
+	ctx: ExtensionContext,
+): Promise<TodoRecord | { error: string }> {
+	const validated = validateTodoId(id);
+	if ("error" in validated) {
+		return { error: validated.error };
+	}
+	const normalizedId = validated.id;
+	const filePath = getTodoPath(todosDir, normalizedId);
+	if (!existsSync(filePath)) {
+		return { error: `Todo ${displayTodoId(id)} not found` };
+	}
+
+	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
+		const existing = await ensureTodoExists(filePath, normalizedId);
+		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		const resolved = resolveChecklistItem(parseTodoChecklist(existing.body), item);
+		if ("error" in resolved) return resolved;
+		if (resolved.checked === checked) return existing;
+		const before = structuredClone(existing);
+		existing.body = setChecklistItemState(existing.body, resolved, checked);
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, checked ? "check" : "uncheck", before, existing, ctx);
+		return existing;
+	});
+
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+/**
+ * Adds usage that accrued while the todo was claimed.  Returns false when the
+ * todo is locked by someone else so the caller can keep the usage for later.
+ */
+async function addTodoUsage(
+	todosDir: string,
+	id: string,
+	delta: { agentTimeMs: number; costUsd: number; tokens: number },
+	ctx: ExtensionContext,
+): Promise<boolean> {
+	if (delta.agentTimeMs <= 0 && delta.costUsd <= 0 && delta.tokens <= 0) return true;
+	const filePath = getTodoPath(todosDir, id);
+	// Bookkeeping only: skip history, and never prompt to steal a lock.
+	const result = await withTodoLock(
+		todosDir,
+		id,
+		ctx,
+		async () => {
+			const existing = await ensureTodoExists(filePath, id);
+			if (!existing) return;
+			if (delta.agentTimeMs > 0) existing.agent_time_ms = (existing.agent_time_ms ?? 0) + delta.agentTimeMs;
+			if (delta.costUsd > 0) existing.cost_usd = (existing.cost_usd ?? 0) + delta.costUsd;
+			if (delta.tokens > 0) existing.tokens = (existing.tokens ?? 0) + delta.tokens;
+			await writeTodoFile(filePath, existing);
+		},
+		false,
+	);
+	return !(typeof result === "object" && "error" in result);
+}
+
+async function claimTodoAssignment(
+	todosDir: string,
+	id: string,
+	ctx: ExtensionContext,
+	force = false,
+	branch?: string | null,
+): Promise<TodoRecord | { error: string }> {
+	const validated = validateTodoId(id);
+	if ("error" in validated) {
+		return { error: validated.error };
+	}
+	const normalizedId = validated.id;
+	const filePath = getTodoPath(todosDir, normalizedId);
+	if (!existsSync(filePath)) {
+		return { error: `Todo ${displayTodoId(id)} not found` };
+	}
+	const sessionId = ctx.sessionManager.getSessionId();
+	const { terminalStatuses } = await readTodoSettings(todosDir);
+	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
+		const existing = await ensureTodoExists(filePath, normalizedId);
+		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		if (isTodoClosed(existing.status, terminalStatuses)) {
+			return { error: `Todo ${displayTodoId(id)} is closed` } as const;
+		}
+		const assigned = existing.assigned_to_session;
+		if (assigned && assigned !== sessionId && !force) {
+			return {
+				error: `Todo ${displayTodoId(id)} is already assigned to session ${assigned}. Use force to override.`,
+			} as const;
+		}
+		if (!force) {
+			const unresolved = getUnresolvedDependencies(existing, await listTodos(todosDir), terminalStatuses);
+			if (unresolved.length) {
+				const blockers = unresolved.map((todo) => formatTodoId(todo.id)).join(", ");
+				return {
+					error: `Todo ${displayTodoId(id)} is blocked by ${blockers}. Close them first or use force to override.`,
+				} as const;
+			}
+		}
+		if (assigned !== sessionId || (branch && existing.branch !== branch)) {
+			const before = structuredClone(existing);
+			if (assigned !== sessionId) {
+				// A forced takeover ends the previous owner's interval before ours starts.
+				stopTodoClock(existing);
+				startTodoClock(existing);
+			}
+			existing.assigned_to_session = sessionId;
+			if (branch) existing.branch = branch;
+			await writeTodoFile(filePath, existing);
+			await recordTodoHistory(todosDir, "claim", before, existing, ctx);
+		}
+		return existing;
+	});
+
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+async function releaseTodoAssignment(
+	todosDir: string,
+	id: string,
+	ctx: ExtensionContext,
+	force = false,
+): Promise<TodoRecord | { error: string }> {
+	const validated = validateTodoId(id);
+	if ("error" in validated) {
 		return { error: validated.error };
 	}
 	const normalizedId = validated.id;
@@ -1373,8 +4132,11 @@ async function releaseTodoAssignment(
 				error: `Todo ${displayTodoId(id)} is assigned to session ${assigned}. Use force to release.`,
 			} as const;
 		}
+		const before = structuredClone(existing);
 		existing.assigned_to_session = undefined;
+		stopTodoClock(existing);
 		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "release", before, existing, ctx);
 		return existing;
 	});
 
@@ -1404,22 +4166,1126 @@ async function deleteTodo(
 		const existing = await ensureTodoExists(filePath, normalizedId);
 		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
 		await fs.unlink(filePath);
+		await removeTodoHistory(todosDir, normalizedId);
 		return existing;
 	});
 
-	if (typeof result === "object" && "error" in result) {
-		return { error: result.error };
-	}
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+async function runGit(
+	pi: ExtensionAPI,
+	cwd: string,
+	args: string[],
+): Promise<{ stdout: string } | { error: string }> {
+	const { stdout, stderr, code } = await pi.exec("git", args, { cwd });
+	if (code !== 0) {
+		const message = (stderr || stdout).trim() || `exit code ${code}`;
+		return { error: `git ${args[0]} failed: ${message}` };
+	}
+	return { stdout };
+}
+
+async function getCurrentGitBranch(pi: ExtensionAPI, cwd: string): Promise<string | null> {
+	const result = await runGit(pi, cwd, ["branch", "--show-current"]);
+	if ("error" in result) return null;
+	return result.stdout.trim() || null;
+}
+
+async function getDefaultGitBranch(pi: ExtensionAPI, cwd: string): Promise<string> {
+	const remoteHead = await runGit(pi, cwd, ["symbolic-ref", "refs/remotes/origin/HEAD", "--short"]);
+	if (!("error" in remoteHead) && remoteHead.stdout.trim()) {
+		return remoteHead.stdout.trim().replace("origin/", "");
+	}
+	for (const candidate of ["main", "master"]) {
+		const exists = await runGit(pi, cwd, ["rev-parse", "--verify", "--quiet", `refs/heads/${candidate}`]);
+		if (!("error" in exists)) return candidate;
+	}
+	return "main";
+}
+
+async function findTodoCommits(pi: ExtensionAPI, cwd: string, id: string): Promise<TodoCommit[]> {
+	const result = await runGit(pi, cwd, [
+		"log",
+		"--all",
+		"-i",
+		"-F",
+		`--grep=${formatTodoId(id)}`,
+		"-n",
+		"50",
+		"--format=%H%x1f%h%x1f%s%x1f%an%x1f%aI",
+	]);
+	if ("error" in result) return [];
+	return result.stdout
+		.split("\n")
+		.filter((line) => line.trim())
+		.map((line) => {
+			const [hash, shortHash, subject, author, date] = line.split("\x1f");
+			return { hash, shortHash, subject, author, date };
+		});
+}
+
+async function isCommitOnBranch(pi: ExtensionAPI, cwd: string, hash: string, branch: string): Promise<boolean> {
+	for (const ref of [branch, `origin/${branch}`]) {
+		const result = await runGit(pi, cwd, ["merge-base", "--is-ancestor", hash, ref]);
+		if (!("error" in result)) return true;
+	}
+	return false;
+}
+
+async function findMergedTodoCommit(
+	pi: ExtensionAPI,
+	cwd: string,
+	id: string,
+	defaultBranch: string,
+): Promise<TodoCommit | null> {
+	for (const commit of await findTodoCommits(pi, cwd, id)) {
+		if (await isCommitOnBranch(pi, cwd, commit.hash, defaultBranch)) return commit;
+	}
+	return null;
+}
+
+async function setTodoCloseOnMerge(
+	todosDir: string,
+	id: string,
+	ctx: ExtensionContext,
+	apply: (todo: TodoRecord, settings: TodoSettings) => void,
+): Promise<TodoRecord | { error: string }> {
+	const validated = validateTodoId(id);
+	if ("error" in validated) {
+		return { error: validated.error };
+	}
+	const normalizedId = validated.id;
+	const filePath = getTodoPath(todosDir, normalizedId);
+	if (!existsSync(filePath)) {
+		return { error: `Todo ${displayTodoId(id)} not found` };
+	}
+	const settings = await readTodoSettings(todosDir);
+
+	const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
+		const existing = await ensureTodoExists(filePath, normalizedId);
+		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		const before = structuredClone(existing);
+		apply(existing, settings);
+		const transitionError = validateStatusTransition(settings, getTodoStatus(before), getTodoStatus(existing));
+		if (transitionError) return transitionError;
+		applyClosedState(existing, settings.terminalStatuses);
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "merge", before, existing, ctx);
+		return existing;
+	});
+
+	if (typeof result === "object" && "error" in result) {
+		return { error: result.error };
+	}
+
+	return result;
+}
+
+function closeMergedTodo(todo: TodoRecord, settings: TodoSettings): void {
+	todo.status = settings.terminalStatuses[0] ?? "closed";
+	todo.close_on_merge = undefined;
+}
+
+async function closeMergedTodos(
+	pi: ExtensionAPI,
+	todosDir: string,
+	ctx: ExtensionContext,
+): Promise<Array<{ todo: TodoRecord; commit: TodoCommit }>> {
+	const { terminalStatuses } = await readTodoSettings(todosDir);
+	const pending = (await listTodos(todosDir)).filter(
+		(todo) => todo.close_on_merge && !isTodoClosed(getTodoStatus(todo), terminalStatuses),
+	);
+	if (!pending.length) return [];
+	const defaultBranch = await getDefaultGitBranch(pi, ctx.cwd);
+	const closed: Array<{ todo: TodoRecord; commit: TodoCommit }> = [];
+	for (const todo of pending) {
+		const commit = await findMergedTodoCommit(pi, ctx.cwd, todo.id, defaultBranch);
+		if (!commit) continue;
+		const result = await setTodoCloseOnMerge(todosDir, todo.id, ctx, closeMergedTodo);
+		if (!("error" in result)) closed.push({ todo: result, commit });
+	}
+	return closed;
+}
+
+async function runGh(
+	pi: ExtensionAPI,
+	cwd: string,
+	args: string[],
+): Promise<{ stdout: string } | { error: string }> {
+	const { stdout, stderr, code } = await pi.exec("gh", args, { cwd });
+	if (code !== 0) {
+		const message = (stderr || stdout).trim() || `exit code ${code}`;
+		return { error: `gh ${args.slice(0, 2).join(" ")} failed: ${message}` };
+	}
+	return { stdout };
+}
+
+async function listGitHubIssues(pi: ExtensionAPI, cwd: string): Promise<GitHubIssue[] | { error: string }> {
+	const result = await runGh(pi, cwd, [
+		"issue", "list",
+		"--state", "all",
+		"--limit", "1000",
+		"--json", "number,title,state,labels,body,updatedAt",
+	]);
+	if ("error" in result) return result;
+	try {
+		const data = JSON.parse(result.stdout) as Array<{
+			number: number;
+			title?: string;
+			state?: string;
+			labels?: Array<{ name?: string }>;
+			body?: string;
+			updatedAt?: string;
+		}>;
+		return data.map((issue) => ({
+			number: issue.number,
+			title: issue.title ?? "",
+			state: (issue.state ?? "OPEN").toUpperCase(),
+			labels: (issue.labels ?? []).map((label) => label.name ?? "").filter(Boolean),
+			body: issue.body ?? "",
+			updatedAt: issue.updatedAt ?? "",
+		}));
+	} catch (error) {
+		return { error: `Failed to parse gh issue list output: ${error instanceof Error ? error.message : String(error)}` };
+	}
+}
+
+async function ensureGitHubLabels(
+	pi: ExtensionAPI,
+	cwd: string,
+	knownLabels: Set<string>,
+	labels: string[],
+): Promise<{ error: string } | null> {
+	for (const label of labels) {
+		if (knownLabels.has(label.toLowerCase())) continue;
+		const result = await runGh(pi, cwd, ["label", "create", label]);
+		if ("error" in result) return result;
+		knownLabels.add(label.toLowerCase());
+	}
+	return null;
+}
+
+async function getGitHubIssueUpdatedAt(
+	pi: ExtensionAPI,
+	cwd: string,
+	issueNumber: number,
+): Promise<string | undefined> {
+	const result = await runGh(pi, cwd, ["issue", "view", String(issueNumber), "--json", "updatedAt"]);
+	if ("error" in result) return undefined;
+	try {
+		return (JSON.parse(result.stdout) as { updatedAt?: string }).updatedAt || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function parseIssueNumberFromUrl(output: string): number | null {
+	const match = output.match(/\/issues\/(\d+)/);
+	return match ? Number.parseInt(match[1], 10) : null;
+}
+
+function sameTagSet(a: string[], b: string[]): boolean {
+	const left = new Set(a.map((tag) => tag.toLowerCase()));
+	const right = new Set(b.map((tag) => tag.toLowerCase()));
+	return left.size === right.size && [...left].every((tag) => right.has(tag));
+}
+
+async function updateSyncedTodo(
+	todosDir: string,
+	id: string,
+	settings: TodoSettings,
+	ctx: ExtensionContext,
+	apply: (todo: TodoRecord) => void,
+): Promise<{ error: string } | null> {
+	const filePath = getTodoPath(todosDir, id);
+	const result = await withTodoLock(todosDir, id, ctx, async () => {
+		const existing = await ensureTodoExists(filePath, id);
+		if (!existing) return { error: `Todo ${displayTodoId(id)} not found` } as const;
+		const before = structuredClone(existing);
+		apply(existing);
+		applyClosedState(existing, settings.terminalStatuses);
+		await writeTodoFile(filePath, existing);
+		await recordTodoHistory(todosDir, "sync", before, existing, ctx);
+		return existing;
+	});
+	if (typeof result === "object" && "error" in result) return { error: result.error };
+	return null;
+}
+
+/**
+ * Two-way sync between todos and GitHub issues.  When a linked pair differs in
+ * title, open/closed state or tags/labels, the issue wins if its updatedAt moved
+ * since the last sync (`github_synced_at`); otherwise the todo's values are
+ * pushed to the issue.
+ */
+async function syncTodosWithGitHub(
+	pi: ExtensionAPI,
+	todosDir: string,
+	ctx: ExtensionContext,
+): Promise<TodoSyncSummary | { error: string }> {
+	const issues = await listGitHubIssues(pi, ctx.cwd);
+	if ("error" in issues) return issues;
+
+	const labelResult = await runGh(pi, ctx.cwd, ["label", "list", "--limit", "1000", "--json", "name"]);
+	if ("error" in labelResult) return labelResult;
+	let knownLabels: Set<string>;
+	try {
+		const labels = JSON.parse(labelResult.stdout) as Array<{ name?: string }>;
+		knownLabels = new Set(labels.map((label) => (label.name ?? "").toLowerCase()));
+	} catch {
+		knownLabels = new Set();
+	}
+
+	await ensureTodosDir(todosDir);
+	const settings = await readTodoSettings(todosDir);
+	const summary: TodoSyncSummary = { imported: [], pushed: [], pulled: [], updatedIssues: [], errors: [] };
+	const todos = await listTodoRecords(todosDir);
+	const issuesByNumber = new Map(issues.map((issue) => [issue.number, issue]));
+	const linkedIssues = new Set(
+		todos.map((todo) => todo.github_issue).filter((issue): issue is number => issue !== undefined),
+	);
+
+	for (const issue of issues) {
+		if (linkedIssues.has(issue.number) || issue.state !== "OPEN") continue;
+		const id = await generateTodoId(todosDir);
+		const todo: TodoRecord = {
+			id,
+			title: issue.title,
+			tags: issue.labels,
+			status: "open",
+			created_at: new Date().toISOString(),
+			github_issue: issue.number,
+			github_synced_at: issue.updatedAt || undefined,
+			body: issue.body,
+		};
+		const result = await withTodoLock(todosDir, id, ctx, async () => {
+			await writeTodoFile(getTodoPath(todosDir, id), todo);
+			await recordTodoHistory(todosDir, "sync", null, todo, ctx);
+			return todo;
+		});
+		if (typeof result === "object" && "error" in result) {
+			summary.errors.push(result.error);
+			continue;
+		}
+		summary.imported.push(id);
+	}
+
+	for (const todo of todos) {
+		const closed = isTodoClosed(getTodoStatus(todo), settings.terminalStatuses);
+		if (todo.github_issue === undefined) {
+			if (closed) continue;
+			const labelError = await ensureGitHubLabels(pi, ctx.cwd, knownLabels, todo.tags);
+			if (labelError) {
+				summary.errors.push(labelError.error);
+				continue;
+			}
+			const args = ["issue", "create", "--title", getTodoTitle(todo), "--body", todo.body.trim() || " "];
+			for (const tag of todo.tags) args.push("--label", tag);
+			const created = await runGh(pi, ctx.cwd, args);
+			if ("error" in created) {
+				summary.errors.push(created.error);
+				continue;
+			}
+			const issueNumber = parseIssueNumberFromUrl(created.stdout);
+			if (issueNumber === null) {
+				summary.errors.push(`Could not determine issue number for ${formatTodoId(todo.id)}`);
+				continue;
+			}
+			const syncedAt = await getGitHubIssueUpdatedAt(pi, ctx.cwd, issueNumber);
+			const linkError = await updateSyncedTodo(todosDir, todo.id, settings, ctx, (record) => {
+				record.github_issue = issueNumber;
+				record.github_synced_at = syncedAt;
+			});
+			if (linkError) {
+				summary.errors.push(linkError.error);
+				continue;
+			}
+			summary.pushed.push(todo.id);
+			continue;
+		}
+
+		const issue = issuesByNumber.get(todo.github_issue);
+		if (!issue) {
+			summary.errors.push(`Issue #${todo.github_issue} linked from ${formatTodoId(todo.id)} not found`);
+			continue;
+		}
+		const issueClosed = issue.state !== "OPEN";
+		const titleDiffers = issue.title !== todo.title;
+		const stateDiffers = issueClosed !== closed;
+		const tagsDiffer = !sameTagSet(issue.labels, todo.tags);
+		// Only the issue's own updatedAt is compared: the todo file's mtime also moves on bookkeeping writes.
+		const issueChanged = issue.updatedAt !== todo.github_synced_at;
+		if (!titleDiffers && !stateDiffers && !tagsDiffer) {
+			if (!issueChanged) continue;
+			const recordError = await updateSyncedTodo(todosDir, todo.id, settings, ctx, (record) => {
+				record.github_synced_at = issue.updatedAt || undefined;
+			});
+			if (recordError) summary.errors.push(recordError.error);
+			continue;
+		}
+
+		if (issueChanged) {
+			const pullError = await updateSyncedTodo(todosDir, todo.id, settings, ctx, (record) => {
+				record.title = issue.title;
+				record.tags = issue.labels;
+				if (stateDiffers) record.status = issueClosed ? (settings.terminalStatuses[0] ?? "closed") : "open";
+				record.github_synced_at = issue.updatedAt || undefined;
+			});
+			if (pullError) {
+				summary.errors.push(pullError.error);
+				continue;
+			}
+			summary.pulled.push(todo.id);
+			continue;
+		}
+
+		if (titleDiffers || tagsDiffer) {
+			const labelError = await ensureGitHubLabels(pi, ctx.cwd, knownLabels, todo.tags);
+			if (labelError) {
+				summary.errors.push(labelError.error);
+				continue;
+			}
+			const args = ["issue", "edit", String(issue.number), "--title", getTodoTitle(todo)];
+			const todoTags = new Set(todo.tags.map((tag) => tag.toLowerCase()));
+			const issueLabels = new Set(issue.labels.map((label) => label.toLowerCase()));
+			for (const tag of todo.tags) {
+				if (!issueLabels.has(tag.toLowerCase())) args.push("--add-label", tag);
+			}
+			for (const label of issue.labels) {
+				if (!todoTags.has(label.toLowerCase())) args.push("--remove-label", label);
+			}
+			const edited = await runGh(pi, ctx.cwd, args);
+			if ("error" in edited) {
+				summary.errors.push(edited.error);
+				continue;
+			}
+		}
+		if (stateDiffers) {
+			const toggled = await runGh(pi, ctx.cwd, ["issue", closed ? "close" : "reopen", String(issue.number)]);
+			if ("error" in toggled) {
+				summary.errors.push(toggled.error);
+				continue;
+			}
+		}
+		// Our own edit moved the issue's updatedAt; record it so it isn't mistaken for a remote change.
+		const syncedAt = await getGitHubIssueUpdatedAt(pi, ctx.cwd, issue.number);
+		const recordError = await updateSyncedTodo(todosDir, todo.id, settings, ctx, (record) => {
+			record.github_synced_at = syncedAt;
+		});
+		if (recordError) summary.errors.push(recordError.error);
+		summary.updatedIssues.push(issue.number);
+	}
+
+	return summary;
+}
+
+function formatTodoSyncSummary(summary: TodoSyncSummary): string {
+	const lines = [
+		`GitHub sync: ${summary.imported.length} imported, ${summary.pushed.length} pushed, ` +
+			`${summary.pulled.length} updated locally, ${summary.updatedIssues.length} issues updated`,
+	];
+	for (const error of summary.errors) {
+		lines.push(`  error: ${error}`);
+	}
+	return lines.join("\n");
+}
+
+interface TodoTemplate {
+	name: string;
+	description?: string;
+	title?: string;
+	tags: string[];
+	priority?: string;
+	estimate?: string;
+	body: string;
+}
+
+const TODO_TEMPLATE_PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const DEFAULT_TODO_TEMPLATES: TodoTemplate[] = [
+	{
+		name: "bug",
+		description: "Something is broken",
+		title: "Fix: {{title}}",
+		tags: ["bug"],
+		body: [
+			"## Problem",
+			"",
+			"{{body}}",
+			"",
+			"## Steps to reproduce",
+			"",
+			"{{steps}}",
+			"",
+			"## Expected vs actual",
+			"",
+			"{{expected}}",
+			"",
+			"## Tasks",
+			"",
+			"- [ ] Reproduce",
+			"- [ ] Fix",
+			"- [ ] Add a regression test",
+		].join("\n"),
+	},
+	{
+		name: "feature",
+		description: "New behaviour or capability",
+		tags: ["feature"],
+		body: [
+			"## Goal",
+			"",
+			"{{body}}",
+			"",
+			"## Acceptance criteria",
+			"",
+			"{{criteria}}",
+			"",
+			"## Tasks",
+			"",
+			"- [ ] Design",
+			"- [ ] Implement",
+			"- [ ] Document",
+		].join("\n"),
+	},
+	{
+		name: "refactor",
+		description: "Restructure code without changing behaviour",
+		tags: ["refactor"],
+		body: [
+			"## Motivation",
+			"",
+			"{{body}}",
+			"",
+			"## Scope",
+			"",
+			"{{scope}}",
+			"",
+			"## Tasks",
+			"",
+			"- [ ] Refactor",
+			"- [ ] Verify behaviour is unchanged",
+		].join("\n"),
+	},
+];
+
+function getTodoTemplatesDir(todosDir: string): string {
+	return path.join(todosDir, TODO_TEMPLATES_DIR_NAME);
+}
+
+function parseTodoTemplate(name: string, content: string): TodoTemplate {
+	const { frontMatter, body } = splitFrontMatter(content);
+	const template: TodoTemplate = { name, tags: [], body: body.trim() };
+	if (!frontMatter) return template;
+	try {
+		const parsed = JSON.parse(frontMatter) as Record<string, unknown>;
+		if (typeof parsed.description === "string") template.description = parsed.description;
+		if (typeof parsed.title === "string" && parsed.title.trim()) template.title = parsed.title;
+		if (Array.isArray(parsed.tags)) {
+			template.tags = parsed.tags.filter((tag): tag is string => typeof tag === "string");
+		}
+		if (typeof parsed.priority === "string") template.priority = parsed.priority;
+		if (typeof parsed.estimate === "string") template.estimate = parsed.estimate;
+	} catch {
+		// a template with broken front matter still contributes its body
+	}
+	return template;
+}
+
+async function listTodoTemplates(todosDir: string): Promise<TodoTemplate[]> {
+	const templates = new Map(DEFAULT_TODO_TEMPLATES.map((template) => [template.name, template]));
+	const templatesDir = getTodoTemplatesDir(todosDir);
+	let entries: string[] = [];
+	try {
+		entries = await fs.readdir(templatesDir);
+	} catch {
+		entries = [];
+	}
+	for (const entry of entries.filter((name) => name.endsWith(".md")).sort()) {
+		const name = entry.slice(0, -3);
+		try {
+			const content = await fs.readFile(path.join(templatesDir, entry), "utf8");
+			templates.set(name, parseTodoTemplate(name, content));
+		} catch {
+			// ignore unreadable template
+		}
+	}
+	return [...templates.values()];
+}
+
+function fillTemplatePlaceholders(text: string, fields: Record<string, string>): string {
+	return text.replace(TODO_TEMPLATE_PLACEHOLDER, (_match, name: string) => fields[name] ?? "");
+}
+
+/** Placeholders the user has to supply; `title` and `date` are filled automatically. */
+function getTemplatePlaceholders(template: TodoTemplate): string[] {
+	const names = new Set<string>();
+	for (const match of `${template.title ?? ""}\n${template.body}`.matchAll(TODO_TEMPLATE_PLACEHOLDER)) {
+		names.add(match[1]);
+	}
+	names.delete("title");
+	names.delete("date");
+	return [...names];
+}
+
+function applyTodoTemplate(
+	template: TodoTemplate,
+	input: TodoCreateInput,
+	fields: Record<string, string> = {},
+): TodoCreateInput {
+	const values: Record<string, string> = {
+		...fields,
+		title: input.title,
+		date: new Date().toISOString().slice(0, 10),
+		body: input.body ?? fields.body ?? "",
+	};
+	// A line that only held placeholders and came out empty is dropped along with
+	// the blank line after it, so sections don't end up with a double gap.
+	const lines: string[] = [];
+	let dropBlank = false;
+	for (const line of template.body.split("\n")) {
+		const filled = fillTemplatePlaceholders(line, values);
+		if (line.trim() && !filled.trim()) {
+			dropBlank = lines.length === 0 || !lines[lines.length - 1].trim();
+			continue;
+		}
+		if (dropBlank && !filled.trim()) {
+			dropBlank = false;
+			continue;
+		}
+		dropBlank = false;
+		lines.push(filled);
+	}
+	let body = lines.join("\n");
+	if (values.body && !/\{\{\s*body\s*\}\}/.test(template.body)) {
+		body = `${body}\n\n${values.body}`;
+	}
+	body = body.trim();
+	return {
+		...input,
+		title: template.title ? fillTemplatePlaceholders(template.title, values) : input.title,
+		tags: [...new Set([...template.tags, ...(input.tags ?? [])])],
+		priority: input.priority ?? template.priority,
+		estimate: input.estimate ?? template.estimate,
+		body,
+	};
+}
+
+async function resolveTodoTemplate(todosDir: string, name: string): Promise<TodoTemplate | { error: string }> {
+	const templates = await listTodoTemplates(todosDir);
+	const template = templates.find((entry) => entry.name.toLowerCase() === name.trim().toLowerCase());
+	if (template) return template;
+	return { error: `Unknown template "${name}". Available: ${templates.map((entry) => entry.name).join(", ")}` };
+}
+
+type TodoExportFormat = "json" | "csv" | "md" | "summary";
+
+const TODO_EXPORT_EXTENSIONS: Record<TodoExportFormat, string> = {
+	json: "json",
+	csv: "csv",
+	md: "md",
+	summary: "md",
+};
+
+const TODO_CSV_COLUMNS = [
+	"id",
+	"title",
+	"status",
+	"tags",
+	"priority",
+	"due",
+	"estimate",
+	"checklist",
+	"assigned_to_session",
+	"created_at",
+	"closed_at",
+	"time_spent_ms",
+	"agent_time_ms",
+	"cost_usd",
+	"tokens",
+] as const;
+
+function parseTodoExportArgs(
+	tokens: string[],
+): { format: TodoExportFormat; groupBy: "status" | "tag"; output?: string } | { error: string } {
+	let format: TodoExportFormat = "json";
+	let groupBy: "status" | "tag" = "status";
+	let output: string | undefined;
+	for (let i = 0; i < tokens.length; i += 1) {
+		const token = tokens[i];
+		const lowered = token.toLowerCase();
+		if (
+			lowered === "json" ||
+			lowered === "csv" ||
+			lowered === "md" ||
+			lowered === "markdown" ||
+			lowered === "summary"
+		) {
+			format = lowered === "markdown" ? "md" : lowered;
+			continue;
+		}
+		if (lowered === "--by" || lowered.startsWith("--by=")) {
+			const value = lowered === "--by" ? tokens[++i]?.toLowerCase() : lowered.slice("--by=".length);
+			if (value !== "status" && value !== "tag") {
+				return { error: `Invalid --by value "${value ?? ""}". Use status or tag.` };
+			}
+			groupBy = value;
+			continue;
+		}
+		if (output) return { error: `Unexpected export argument "${token}"` };
+		output = token;
+	}
+	return { format, groupBy, output };
+}
+
+function serializeTodosAsJson(todos: TodoRecord[]): string {
+	const payload = {
+		version: 1,
+		exported_at: new Date().toISOString(),
+		todos: todos.map(({ checklist: _checklist, ...todo }) => todo),
+	};
+	return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+function escapeCsvValue(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function serializeTodosAsCsv(todos: TodoRecord[], terminalStatuses: readonly string[]): string {
+	const rows = [TODO_CSV_COLUMNS.join(",")];
+	for (const todo of sortTodos(todos, terminalStatuses)) {
+		const progress = getChecklistProgress(todo);
+		const values: Record<(typeof TODO_CSV_COLUMNS)[number], string> = {
+			id: formatTodoId(todo.id),
+			title: todo.title,
+			status: getTodoStatus(todo),
+			tags: todo.tags.join(";"),
+			priority: todo.priority ?? "",
+			due: todo.due ?? "",
+			estimate: todo.estimate ?? "",
+			checklist: progress ? `${progress.done}/${progress.total}` : "",
+			assigned_to_session: todo.assigned_to_session ?? "",
+			created_at: todo.created_at,
+			closed_at: todo.closed_at ?? "",
+			time_spent_ms: String(getTodoTimeSpentMs(todo)),
+			agent_time_ms: String(todo.agent_time_ms ?? 0),
+			cost_usd: String(todo.cost_usd ?? 0),
+			tokens: String(todo.tokens ?? 0),
+		};
+		rows.push(TODO_CSV_COLUMNS.map((column) => escapeCsvValue(values[column])).join(","));
+	}
+	return `${rows.join("\n")}\n`;
+}
+
+function renderTodoMarkdownReport(
+	todos: TodoRecord[],
+	groupBy: "status" | "tag",
+	terminalStatuses: readonly string[],
+): string {
+	const groups = new Map<string, TodoRecord[]>();
+	for (const todo of sortTodos(todos, terminalStatuses)) {
+		const keys = groupBy === "status" ? [getTodoStatus(todo)] : todo.tags.length ? todo.tags : ["(untagged)"];
+		for (const key of keys) {
+			const group = groups.get(key) ?? [];
+			group.push(todo);
+			groups.set(key, group);
+		}
+	}
+
+	const openCount = todos.filter((todo) => !isTodoClosed(getTodoStatus(todo), terminalStatuses)).length;
+	const lines = [
+		`# Todo report (${new Date().toISOString().slice(0, 10)})`,
+		"",
+		`${todos.length} todos: ${openCount} open, ${todos.length - openCount} closed.`,
+	];
+	const keys = [...groups.keys()].sort((a, b) => {
+		if (groupBy === "status") {
+			const aClosed = isTodoClosed(a, terminalStatuses);
+			if (aClosed !== isTodoClosed(b, terminalStatuses)) return aClosed ? 1 : -1;
+		}
+		return a.localeCompare(b);
+	});
+	for (const key of keys) {
+		const group = groups.get(key) ?? [];
+		lines.push("", `## ${key} (${group.length})`, "");
+		for (const todo of group) {
+			const marker = isTodoClosed(getTodoStatus(todo), terminalStatuses) ? "[x]" : "[ ]";
+			const progress = getChecklistProgress(todo);
+			const details = [
+				groupBy === "tag" ? getTodoStatus(todo) : todo.tags.join(", "),
+				todo.priority,
+				todo.due ? `due ${todo.due}` : undefined,
+				todo.estimate ? `est. ${todo.estimate}` : undefined,
+				progress ? `${progress.done}/${progress.total} done` : undefined,
+			].filter(Boolean);
+			const suffix = details.length ? ` _(${details.join(" • ")})_` : "";
+			lines.push(`- ${marker} \`${formatTodoId(todo.id)}\` ${getTodoTitle(todo)}${suffix}`);
+		}
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+function renderTodoTimeSummary(todos: TodoRecord[]): string {
+	const now = Date.now();
+	const tracked = todos
+		.map((todo) => ({
+			todo,
+			timeMs: getTodoTimeSpentMs(todo, now),
+			agentMs: todo.agent_time_ms ?? 0,
+			cost: todo.cost_usd ?? 0,
+			tokens: todo.tokens ?? 0,
+		}))
+		.filter((entry) => entry.timeMs > 0 || entry.agentMs > 0 || entry.cost > 0 || entry.tokens > 0)
+		.sort((a, b) => b.timeMs - a.timeMs);
+	const lines = [`# Todo time summary (${new Date(now).toISOString().slice(0, 10)})`, ""];
+	if (!tracked.length) {
+		lines.push("No time has been tracked yet.");
+		return `${lines.join("\n")}\n`;
+	}
+	const cell = (text: string) => text.replace(/\|/g, "\\|");
+	lines.push(
+		"| Todo | Status | Claimed | Agent | Cost | Tokens |",
+		"| --- | --- | ---: | ---: | ---: | ---: |",
+	);
+	for (const { todo, timeMs, agentMs, cost, tokens } of tracked) {
+		lines.push(
+			`| \`${formatTodoId(todo.id)}\` ${cell(getTodoTitle(todo))} | ${cell(getTodoStatus(todo))} | ` +
+				`${formatDurationMs(timeMs)} | ${formatDurationMs(agentMs)} | ${formatUsd(cost)} | ${tokens} |`,
+		);
+	}
+	const totalTime = tracked.reduce((sum, entry) => sum + entry.timeMs, 0);
+	const totalAgent = tracked.reduce((sum, entry) => sum + entry.agentMs, 0);
+	const totalCost = tracked.reduce((sum, entry) => sum + entry.cost, 0);
+	const totalTokens = tracked.reduce((sum, entry) => sum + entry.tokens, 0);
+	lines.push(
+		`| **Total** (${tracked.length} todos) | | ${formatDurationMs(totalTime)} | ${formatDurationMs(totalAgent)} | ` +
+			`${formatUsd(totalCost)} | ${totalTokens} |`,
+	);
+	lines.push("", renderTodoCostByTag(todos).trimEnd());
+	return `${lines.join("\n")}\n`;
+}
+
+function renderTodoCostByTag(todos: TodoRecord[]): string {
+	// A todo with several tags counts toward each of them, so rows may sum to more than the total.
+	const byTag = new Map<string, { todos: number; cost: number; tokens: number }>();
+	for (const todo of todos) {
+		if (!todo.cost_usd && !todo.tokens) continue;
+		const tags = todo.tags.length ? todo.tags : ["(untagged)"];
+		for (const tag of tags) {
+			const entry = byTag.get(tag) ?? { todos: 0, cost: 0, tokens: 0 };
+			entry.todos += 1;
+			entry.cost += todo.cost_usd ?? 0;
+			entry.tokens += todo.tokens ?? 0;
+			byTag.set(tag, entry);
+		}
+	}
+	const lines = ["## Cost by tag", ""];
+	if (!byTag.size) {
+		lines.push("No cost has been attributed yet.");
+		return `${lines.join("\n")}\n`;
+	}
+	lines.push("| Tag | Todos | Cost | Tokens |", "| --- | ---: | ---: | ---: |");
+	const rows = [...byTag.entries()].sort((a, b) => b[1].cost - a[1].cost || a[0].localeCompare(b[0]));
+	for (const [tag, entry] of rows) {
+		lines.push(`| ${tag.replace(/\|/g, "\\|")} | ${entry.todos} | ${formatUsd(entry.cost)} | ${entry.tokens} |`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+function serializeTodoExport(
+	todos: TodoRecord[],
+	format: TodoExportFormat,
+	groupBy: "status" | "tag",
+	terminalStatuses: readonly string[],
+): string {
+	if (format === "csv") return serializeTodosAsCsv(todos, terminalStatuses);
+	if (format === "md") return renderTodoMarkdownReport(todos, groupBy, terminalStatuses);
+	if (format === "summary") return renderTodoTimeSummary(todos);
+	return serializeTodosAsJson(todos);
+}
+
+export function parseTodoImport(text: string): TodoRecord[] | { error: string } {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { error: `Invalid JSON: ${message}` };
+	}
+	const entries = Array.isArray(parsed)
+		? parsed
+		: parsed && typeof parsed === "object" && Array.isArray((parsed as { todos?: unknown }).todos)
+			? (parsed as { todos: unknown[] }).todos
+			: null;
+	if (!entries) return { error: "Expected a todos export ({ todos: [...] }) or an array of todos" };
+
+	const todos: TodoRecord[] = [];
+	for (const [index, entry] of entries.entries()) {
+		if (!entry || typeof entry !== "object") {
+			return { error: `Entry ${index + 1} is not an object` };
+		}
+		const { body, ...frontMatter } = entry as Partial<TodoRecord>;
+		const rawId = typeof frontMatter.id === "string" ? normalizeTodoId(frontMatter.id).toLowerCase() : "";
+		// Reuse the front matter parser so imported fields get the same validation as files on disk.
+		const todo: TodoRecord = {
+			...parseFrontMatter(JSON.stringify({ ...frontMatter, id: rawId }), rawId),
+			body: typeof body === "string" ? body : "",
+		};
+		if (!todo.title.trim()) return { error: `Entry ${index + 1} has no title` };
+		todos.push(todo);
+	}
+	return todos;
+}
+
+export async function importTodos(
+	todosDir: string,
+	todos: TodoRecord[],
+	ctx: ExtensionContext,
+): Promise<{ imported: Array<{ from: string; to: string }>; errors: string[] }> {
+	await ensureTodosDir(todosDir);
+	const archiveDir = getTodoArchiveDir(todosDir);
+	const idMap = new Map<string, string>();
+	const taken = new Set<string>();
+	const assignments: Array<{ from: string; todo: TodoRecord }> = [];
+	for (const todo of todos) {
+		const from = todo.id;
+		let id = from;
+		if (
+			!TODO_ID_PATTERN.test(id) ||
+			taken.has(id) ||
+			existsSync(getTodoPath(todosDir, id)) ||
+			existsSync(getTodoPath(archiveDir, id))
+		) {
+			do {
+				id = await generateTodoId(todosDir);
+			} while (taken.has(id));
+		}
+		taken.add(id);
+		if (from && !idMap.has(from)) idMap.set(from, id);
+		todo.id = id;
+		assignments.push({ from, todo });
+	}
+
+	// Edges to todos outside the file would dangle here, so they are dropped.
+	const remap = (ids: string[] | undefined) => {
+		const mapped = (ids ?? []).flatMap((id) => idMap.get(id) ?? []);
+		return mapped.length ? mapped : undefined;
+	};
+
+	const imported: Array<{ from: string; to: string }> = [];
+	const errors: string[] = [];
+	for (const { from, todo } of assignments) {
+		const id = todo.id;
+		todo.depends_on = remap(todo.depends_on);
+		todo.blocks = remap(todo.blocks);
+		// Sessions, issues and branches from another checkout are meaningless here.
+		// The claim goes with the session, so its running clock must not survive either;
+		// the time between export and import was not spent on the todo.
+		todo.assigned_to_session = undefined;
+		todo.claimed_at = undefined;
+		todo.github_issue = undefined;
+		todo.github_synced_at = undefined;
+		todo.branch = undefined;
+		todo.close_on_merge = undefined;
+		if (!todo.created_at) todo.created_at = new Date().toISOString();
+		const result = await withTodoLock(todosDir, id, ctx, async () => {
+			await writeTodoFile(getTodoPath(todosDir, id), todo);
+			await recordTodoHistory(todosDir, "import", null, todo, ctx);
+			return todo;
+		});
+		if (typeof result === "object" && "error" in result) {
+			errors.push(`${todo.title}: ${result.error}`);
+			continue;
+		}
+		imported.push({ from, to: id });
+	}
+	return { imported, errors };
+}
+
+export default function todosExtension(pi: ExtensionAPI) {
+	// Todos assigned to this session per todo dir, used to notice when another session takes them over
+	// and to attribute turn usage without rereading every todo file per turn.
+	const assignmentWatch: {
+		stop: (() => void) | null;
+		assigned: Map<string, Map<string, string>>;
+		alerts: string[];
+	} = { stop: null, assigned: new Map(), alerts: [] };
+
+	const updateTodoStatusBar = (ctx: ExtensionContext) => {
+		if (!ctx.hasUI) return;
+		const [latest] = assignmentWatch.alerts.slice(-1);
+		if (!latest) {
+			ctx.ui.setStatus(TODO_STATUS_KEY, undefined);
+			return;
+		}
+		const more = assignmentWatch.alerts.length > 1 ? ` (+${assignmentWatch.alerts.length - 1})` : "";
+		ctx.ui.setStatus(TODO_STATUS_KEY, ctx.ui.theme.fg("warning", `${latest}${more}`));
+	};
+
+	const snapshotAssignments = (
+		todosDir: string,
+		todos: TodoFrontMatter[],
+		sessionId: string,
+		terminalStatuses: readonly string[],
+	) => {
+		assignmentWatch.assigned.set(
+			todosDir,
+			new Map(
+				todos
+					.filter(
+						(todo) =>
+							todo.assigned_to_session === sessionId && !isTodoClosed(getTodoStatus(todo), terminalStatuses),
+					)
+					.map((todo) => [todo.id, getTodoTitle(todo)]),
+			),
+		);
+	};
+
+	// Applies this session's own claim/release/close right away instead of waiting for the watcher.
+	const trackAssignment = (
+		todosDir: string,
+		todo: TodoFrontMatter,
+		sessionId: string,
+		terminalStatuses: readonly string[],
+		deleted = false,
+	) => {
+		const assigned = assignmentWatch.assigned.get(todosDir) ?? new Map<string, string>();
+		const mine = todo.assigned_to_session === sessionId && !isTodoClosed(getTodoStatus(todo), terminalStatuses);
+		if (mine && !deleted) {
+			assigned.set(todo.id, getTodoTitle(todo));
+		} else {
+			assigned.delete(todo.id);
+		}
+		assignmentWatch.assigned.set(todosDir, assigned);
+	};
+
+	const checkAssignments = async (todosDir: string, ctx: ExtensionContext) => {
+		const sessionId = ctx.sessionManager.getSessionId();
+		const todos = await listTodos(todosDir);
+		const { terminalStatuses } = await readTodoSettings(todosDir);
+		for (const [id, title] of assignmentWatch.assigned.get(todosDir) ?? []) {
+			const todo = todos.find((entry) => entry.id === id);
+			if (!todo) continue;
+			const closed = isTodoClosed(getTodoStatus(todo), terminalStatuses);
+			const reassigned = Boolean(todo.assigned_to_session) && todo.assigned_to_session !== sessionId;
+			if (!closed && !reassigned) continue;
+			const [lastChange] = (await readTodoHistory(todosDir, id)).slice(-1);
+			if (lastChange?.session === sessionId) continue;
+			assignmentWatch.alerts.push(
+				closed
+					? `${formatTodoId(id)} "${title}" was closed by another session`
+					: `${formatTodoId(id)} "${title}" was claimed by ${todo.assigned_to_session}`,
+			);
+		}
+		snapshotAssignments(todosDir, todos, sessionId, terminalStatuses);
+		updateTodoStatusBar(ctx);
+	};
+
+	const startAssignmentWatch = async (ctx: ExtensionContext) => {
+		assignmentWatch.stop?.();
+		assignmentWatch.assigned = new Map();
+		assignmentWatch.alerts = [];
+		updateTodoStatusBar(ctx);
+		const sessionId = ctx.sessionManager.getSessionId();
+		const stops: Array<() => void> = [];
+		for (const { dir } of getTodoSources(ctx.cwd, "all")) {
+			const { terminalStatuses } = await readTodoSettings(dir);
+			snapshotAssignments(dir, await listTodos(dir), sessionId, terminalStatuses);
+			stops.push(
+				watchTodosDir(dir, () => {
+					void checkAssignments(dir, ctx);
+				}),
+			);
+		}
+		assignmentWatch.stop = () => {
+			for (const stop of stops) stop();
+		};
+	};
+
+	const closeMergedTodosInSources = async (ctx: ExtensionContext) => {
+		const closed: Array<{ todo: TodoRecord; commit: TodoCommit }> = [];
+		for (const { dir } of getTodoSources(ctx.cwd, "all")) {
+			closed.push(...(await closeMergedTodos(pi, dir, ctx)));
+		}
+		return closed;
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		await ensureTodosDir(getTodosDir(ctx.cwd));
+		for (const { dir } of getTodoSources(ctx.cwd, "all")) {
+			await garbageCollectTodos(dir, await readTodoSettings(dir));
+		}
+		const merged = await closeMergedTodosInSources(ctx);
+		if (merged.length && ctx.hasUI) {
+			const ids = merged.map(({ todo }) => formatTodoId(todo.id)).join(", ");
+			ctx.ui.notify(`Closed ${ids}: referencing commits landed on the default branch`, "info");
+		}
+		await startAssignmentWatch(ctx);
+	});
+
+	// Usage accrued by claimed todos.  It is written once per agent run rather than
+	// every turn, so file watchers (the manager, other sessions) aren't woken per turn.
+	const pendingUsage = new Map<
+		string,
+		{ todosDir: string; id: string; agentTimeMs: number; costUsd: number; tokens: number }
+	>();
+
+	const flushTodoUsage = async (ctx: ExtensionContext) => {
+		for (const [key, entry] of pendingUsage) {
+			// A locked todo keeps its usage until the next flush.
+			if (await addTodoUsage(entry.todosDir, entry.id, entry, ctx)) pendingUsage.delete(key);
+		}
+	};
+
+	pi.on("session_switch", async (_event, ctx) => {
+		await flushTodoUsage(ctx);
+		await startAssignmentWatch(ctx);
+	});
+
+	pi.on("session_shutdown", async (_event, ctx) => {
+		assignmentWatch.stop?.();
+		assignmentWatch.stop = null;
+		await flushTodoUsage(ctx);
+	});
+
+	let turnStartedAt: number | null = null;
 
-	return result;
-}
+	pi.on("turn_start", async () => {
+		turnStartedAt = Date.now();
+	});
 
-export default function todosExtension(pi: ExtensionAPI) {
-	pi.on("session_start", async (_event, ctx) => {
-		const todosDir = getTodosDir(ctx.cwd);
-		await ensureTodosDir(todosDir);
-		const settings = await readTodoSettings(todosDir);
-		await garbageCollectTodos(todosDir, settings);
+	pi.on("turn_end", async (event, ctx) => {
+		const agentTimeMs = turnStartedAt === null ? 0 : Date.now() - turnStartedAt;
+		turnStartedAt = null;
+		const usage = event.message.role === "assistant" ? event.message.usage : undefined;
+		if (agentTimeMs <= 0 && !getUsageCost(usage) && !getUsageTokens(usage)) return;
+		const claimed = [...assignmentWatch.assigned].flatMap(([todosDir, assigned]) =>
+			[...assigned.keys()].map((id) => ({ todosDir, id })),
+		);
+		if (!claimed.length) return;
+		// There is no finer attribution, so the turn is split evenly between the claimed todos.
+		const delta = {
+			agentTimeMs: Math.round(agentTimeMs / claimed.length),
+			costUsd: getUsageCost(usage) / claimed.length,
+			tokens: Math.round(getUsageTokens(usage) / claimed.length),
+		};
+		for (const { todosDir, id } of claimed) {
+			const key = `${todosDir}\0${id}`;
+			const entry = pendingUsage.get(key) ?? { todosDir, id, agentTimeMs: 0, costUsd: 0, tokens: 0 };
+			entry.agentTimeMs += delta.agentTimeMs;
+			entry.costUsd += delta.costUsd;
+			entry.tokens += delta.tokens;
+			pendingUsage.set(key, entry);
+		}
+	});
+
+	pi.on("agent_end", async (_event, ctx) => {
+		await flushTodoUsage(ctx);
 	});
 
 	const todosDirLabel = getTodosDirLabel(process.cwd());
@@ -1428,34 +5294,64 @@ export default function todosExtension(pi: ExtensionAPI) {
 		name: "todo",
 		label: "Todo",
 		description:
-			`Manage file-based todos in ${todosDirLabel} (list, list-all, get, create, update, append, delete, claim, release). ` +
+			`Manage file-based todos in ${todosDirLabel} (list, list-all, ready, search-archive, get, history, create, plan, update, append, check, uncheck, delete, claim, release). ` +
 			"Title is the short summary; body is long-form markdown notes (update replaces, append adds). " +
 			"Todo ids are shown as TODO-<hex>; id parameters accept TODO-<hex> or the raw hex filename. " +
+			"Use depends_on/blocks to order work; ready lists open todos whose dependencies are all closed. " +
+			"Todos can carry a priority (p0-p3), a due date and an estimate (e.g. 2h). " +
+			"To break a goal into several todos, use plan with a goal and items (depends_on may reference other items by 1-based position) instead of repeated create calls; " +
+			"it creates them together under a parent todo, and the user may edit or drop items first. " +
+			"Prefer create with a template (bug, feature, refactor, or custom ones) and template_fields for consistent bodies. " +
+			"List actions accept a query (status:, tag:, assignee:me, created:>7d, title:, body:, priority:, due:) plus limit/offset; " +
+			"prefer narrow queries over listing everything. " +
+			"Old closed todos are moved to an archive; search-archive queries it with the same query syntax. " +
+			"history shows who changed a todo, when, and which fields (e.g. why it was reopened). " +
+			"Track subtasks as '- [ ] item' checklists in the body and tick them with check/uncheck (item = 1-based index or text). " +
+			"Status changes must follow the workflow in settings.json; a rejected change lists the valid next statuses. " +
+			"In a monorepo, scope picks the nearest package's todos (default), the repo root's, or all of them; listed todos then carry a source. " +
 			"Claim tasks before working on them to avoid conflicts, and close them when complete.", 
 		parameters: TodoParams,
 
 		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			const todosDir = getTodosDir(ctx.cwd);
+			const sources = getTodoSources(ctx.cwd, params.scope);
+			const todosDir = findTodoSourceDir(sources, params.id);
+			const terminalStatuses = readTerminalStatuses(sources);
 			const action: TodoAction = params.action;
 
 			switch (action) {
-				case "list": {
-					const todos = await listTodos(todosDir);
-					const { assignedTodos, openTodos } = splitTodosByAssignment(todos);
-					const listedTodos = [...assignedTodos, ...openTodos];
-					const currentSessionId = ctx.sessionManager.getSessionId();
-					return {
-						content: [{ type: "text", text: serializeTodoListForAgent(listedTodos) }],
-						details: { action: "list", todos: listedTodos, currentSessionId },
-					};
-				}
-
-				case "list-all": {
-					const todos = await listTodos(todosDir);
+				case "list":
+				case "list-all":
+				case "ready":
+				case "search-archive": {
+					const listSources =
+						action === "search-archive"
+							? sources.map((source) => ({ ...source, dir: getTodoArchiveDir(source.dir) }))
+							: sources;
+					const todos = await listTodosFromSources(listSources);
+					const { assignedTodos, openTodos } = splitTodosByAssignment(todos, terminalStatuses);
+					const candidates =
+						action === "list"
+							? [...assignedTodos, ...openTodos]
+							: action === "ready"
+								? getReadyTodos(todos, terminalStatuses)
+								: todos;
 					const currentSessionId = ctx.sessionManager.getSessionId();
+					const result = await queryTodosForAgent(
+						listSources,
+						candidates,
+						params,
+						terminalStatuses,
+						currentSessionId,
+					);
+					if ("error" in result) {
+						return {
+							content: [{ type: "text", text: result.error }],
+							details: { terminalStatuses, action, todos: [], error: result.error },
+						};
+					}
 					return {
-						content: [{ type: "text", text: serializeTodoListForAgent(todos) }],
-						details: { action: "list-all", todos, currentSessionId },
+						content: [{ type: "text", text: serializeTodoListForAgent(result.todos, terminalStatuses, result.page) }],
+						details: { terminalStatuses, action, todos: result.todos, currentSessionId, total: result.page?.total },
 					};
 				}
 
@@ -1463,14 +5359,14 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "get", error: "id required" },
+							details: { terminalStatuses, action: "get", error: "id required" },
 						};
 					}
 					const validated = validateTodoId(params.id);
 					if ("error" in validated) {
 						return {
 							content: [{ type: "text", text: validated.error }],
-							details: { action: "get", error: validated.error },
+							details: { terminalStatuses, action: "get", error: validated.error },
 						};
 					}
 					const normalizedId = validated.id;
@@ -1480,12 +5376,42 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!todo) {
 						return {
 							content: [{ type: "text", text: `Todo ${displayId} not found` }],
-							details: { action: "get", error: "not found" },
+							details: { terminalStatuses, action: "get", error: "not found" },
 						};
 					}
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(todo) }],
-						details: { action: "get", todo },
+						details: { terminalStatuses, action: "get", todo },
+					};
+				}
+
+				case "history": {
+					if (!params.id) {
+						return {
+							content: [{ type: "text", text: "Error: id required" }],
+							details: { terminalStatuses, action: "history", error: "id required" },
+						};
+					}
+					const validated = validateTodoId(params.id);
+					if ("error" in validated) {
+						return {
+							content: [{ type: "text", text: validated.error }],
+							details: { terminalStatuses, action: "history", error: validated.error },
+						};
+					}
+					const normalizedId = validated.id;
+					const displayId = formatTodoId(normalizedId);
+					const todo = await ensureTodoExists(getTodoPath(todosDir, normalizedId), normalizedId);
+					if (!todo) {
+						return {
+							content: [{ type: "text", text: `Todo ${displayId} not found` }],
+							details: { terminalStatuses, action: "history", error: "not found" },
+						};
+					}
+					const history = await readTodoHistory(todosDir, normalizedId);
+					return {
+						content: [{ type: "text", text: JSON.stringify({ id: displayId, history }, null, 2) }],
+						details: { terminalStatuses, action: "history", todo, history },
 					};
 				}
 
@@ -1493,36 +5419,31 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.title) {
 						return {
 							content: [{ type: "text", text: "Error: title required" }],
-							details: { action: "create", error: "title required" },
+							details: { terminalStatuses, action: "create", error: "title required" },
 						};
 					}
-					await ensureTodosDir(todosDir);
-					const id = await generateTodoId(todosDir);
-					const filePath = getTodoPath(todosDir, id);
-					const todo: TodoRecord = {
-						id,
-						title: params.title,
-						tags: params.tags ?? [],
-						status: params.status ?? "open",
-						created_at: new Date().toISOString(),
-						body: params.body ?? "",
-					};
-
-					const result = await withTodoLock(todosDir, id, ctx, async () => {
-						await writeTodoFile(filePath, todo);
-						return todo;
-					});
-
-					if (typeof result === "object" && "error" in result) {
+					let input: TodoCreateInput = { ...params, title: params.title };
+					if (params.template) {
+						const template = await resolveTodoTemplate(todosDir, params.template);
+						if ("error" in template) {
+							return {
+								content: [{ type: "text", text: template.error }],
+								details: { terminalStatuses, action: "create", error: template.error },
+							};
+						}
+						input = applyTodoTemplate(template, input, params.template_fields);
+					}
+					const result = await createTodo(todosDir, input, ctx);
+					if ("error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "create", error: result.error },
+							details: { terminalStatuses, action: "create", error: result.error },
 						};
 					}
 
 					return {
-						content: [{ type: "text", text: serializeTodoForAgent(todo) }],
-						details: { action: "create", todo },
+						content: [{ type: "text", text: serializeTodoForAgent(result) }],
+						details: { terminalStatuses, action: "create", todo: result },
 					};
 				}
 
@@ -1530,14 +5451,14 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "update", error: "id required" },
+							details: { terminalStatuses, action: "update", error: "id required" },
 						};
 					}
 					const validated = validateTodoId(params.id);
 					if ("error" in validated) {
 						return {
 							content: [{ type: "text", text: validated.error }],
-							details: { action: "update", error: validated.error },
+							details: { terminalStatuses, action: "update", error: validated.error },
 						};
 					}
 					const normalizedId = validated.id;
@@ -1546,36 +5467,61 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!existsSync(filePath)) {
 						return {
 							content: [{ type: "text", text: `Todo ${displayId} not found` }],
-							details: { action: "update", error: "not found" },
+							details: { terminalStatuses, action: "update", error: "not found" },
 						};
 					}
+					const settings = await readTodoSettings(todosDir);
 					const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
 						const existing = await ensureTodoExists(filePath, normalizedId);
 						if (!existing) return { error: `Todo ${displayId} not found` } as const;
+						const before = structuredClone(existing);
 
 						existing.id = normalizedId;
 						if (params.title !== undefined) existing.title = params.title;
-						if (params.status !== undefined) existing.status = params.status;
+						if (params.status !== undefined) {
+							const transitionError = validateStatusTransition(
+								settings,
+								getTodoStatus(existing),
+								params.status,
+							);
+							if (transitionError) return transitionError;
+							existing.status = params.status;
+						}
 						if (params.tags !== undefined) existing.tags = params.tags;
 						if (params.body !== undefined) existing.body = params.body;
+						const fieldError = applyTodoPlanningFields(existing, params);
+						if (fieldError) return fieldError;
+						if (params.depends_on !== undefined || params.blocks !== undefined) {
+							const dependsOn = resolveTodoIdList(params.depends_on ?? existing.depends_on ?? []);
+							if ("error" in dependsOn) return { error: dependsOn.error } as const;
+							const blocks = resolveTodoIdList(params.blocks ?? existing.blocks ?? []);
+							if ("error" in blocks) return { error: blocks.error } as const;
+							existing.depends_on = dependsOn.ids;
+							existing.blocks = blocks.ids;
+							const dependencyError = validateTodoDependencies(existing, await listTodos(todosDir));
+							if (dependencyError) return dependencyError;
+						}
 						if (!existing.created_at) existing.created_at = new Date().toISOString();
-						clearAssignmentIfClosed(existing);
+						applyClosedState(existing, settings.terminalStatuses);
 
 						await writeTodoFile(filePath, existing);
+						await recordTodoHistory(todosDir, "update", before, existing, ctx);
 						return existing;
 					});
 
 					if (typeof result === "object" && "error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "update", error: result.error },
+							details: { terminalStatuses, action: "update", error: result.error },
 						};
 					}
 
 					const updatedTodo = result as TodoRecord;
+					const sessionId = ctx.sessionManager.getSessionId();
+					trackAssignment(todosDir, updatedTodo, sessionId, settings.terminalStatuses);
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(updatedTodo) }],
-						details: { action: "update", todo: updatedTodo },
+						details: { terminalStatuses, action: "update", todo: updatedTodo },
 					};
 				}
 
@@ -1583,14 +5529,14 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "append", error: "id required" },
+							details: { terminalStatuses, action: "append", error: "id required" },
 						};
 					}
 					const validated = validateTodoId(params.id);
 					if ("error" in validated) {
 						return {
 							content: [{ type: "text", text: validated.error }],
-							details: { action: "append", error: validated.error },
+							details: { terminalStatuses, action: "append", error: validated.error },
 						};
 					}
 					const normalizedId = validated.id;
@@ -1599,7 +5545,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!existsSync(filePath)) {
 						return {
 							content: [{ type: "text", text: `Todo ${displayId} not found` }],
-							details: { action: "append", error: "not found" },
+							details: { terminalStatuses, action: "append", error: "not found" },
 						};
 					}
 					const result = await withTodoLock(todosDir, normalizedId, ctx, async () => {
@@ -1608,21 +5554,118 @@ export default function todosExtension(pi: ExtensionAPI) {
 						if (!params.body || !params.body.trim()) {
 							return existing;
 						}
+						const before = structuredClone(existing);
 						const updated = await appendTodoBody(filePath, existing, params.body);
+						await recordTodoHistory(todosDir, "append", before, updated, ctx);
 						return updated;
 					});
 
 					if (typeof result === "object" && "error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "append", error: result.error },
+							details: { terminalStatuses, action: "append", error: result.error },
+						};
+					}
+
+					const updatedTodo = result as TodoRecord;
+					return {
+						content: [{ type: "text", text: serializeTodoForAgent(updatedTodo) }],
+						details: { terminalStatuses, action: "append", todo: updatedTodo },
+					};
+				}
+
+				case "plan": {
+					let items: TodoPlanItem[] = (params.items ?? []).map((item) => ({ ...item }));
+					if (!params.goal || !items.length) {
+						const error = !params.goal ? "goal required" : "items required";
+						return {
+							content: [{ type: "text", text: `Error: ${error}` }],
+							details: { terminalStatuses, action: "plan", todos: [], error },
+						};
+					}
+					if (ctx.hasUI) {
+						// Let the user trim and reword the plan before anything is written.
+						const dropped = new Set<number>();
+						let selectedIndex = 0;
+						while (true) {
+							const review = await ctx.ui.custom<TodoPlanReviewAction>(
+								(_tui, theme, _kb, done) =>
+									new TodoPlanReviewComponent(theme, params.goal ?? "", items, dropped, selectedIndex, done),
+							);
+							if (review.action === "cancel") {
+								return {
+									content: [{ type: "text", text: "The user cancelled the plan; no todos were created." }],
+									details: { terminalStatuses, action: "plan", todos: [], error: "plan cancelled by the user" },
+								};
+							}
+							if (review.action === "confirm") break;
+							selectedIndex = review.index;
+							const item = items[review.index];
+							const edited = await ctx.ui.editor(
+								`Edit plan item ${review.index + 1} (first line is the title)`,
+								item.body ? `${item.title}\n\n${item.body}` : item.title,
+							);
+							if (edited === undefined) continue;
+							const [firstLine = "", ...rest] = edited.split("\n");
+							if (firstLine.trim()) item.title = firstLine.trim();
+							item.body = rest.join("\n").trim() || undefined;
+						}
+						items = dropTodoPlanItems(items, dropped);
+						if (!items.length) {
+							return {
+								content: [{ type: "text", text: "The user dropped every plan item; no todos were created." }],
+								details: { terminalStatuses, action: "plan", todos: [], error: "all plan items dropped" },
+							};
+						}
+					}
+					const result = await createTodoPlan(
+						todosDir,
+						params.goal,
+						items,
+						{ tags: params.tags, body: params.body },
+						ctx,
+					);
+					if ("error" in result) {
+						return {
+							content: [{ type: "text", text: result.error }],
+							details: { terminalStatuses, action: "plan", todos: [], error: result.error },
 						};
 					}
+					const ids = {
+						parent: formatTodoId(result.parent.id),
+						items: result.children.map((todo) => ({ id: formatTodoId(todo.id), title: todo.title })),
+					};
+					return {
+						content: [{ type: "text", text: JSON.stringify(ids, null, 2) }],
+						details: { terminalStatuses, action: "plan", todo: result.parent, todos: result.children },
+					};
+				}
 
+				case "check":
+				case "uncheck": {
+					if (!params.id) {
+						return {
+							content: [{ type: "text", text: "Error: id required" }],
+							details: { terminalStatuses, action, error: "id required" },
+						};
+					}
+					if (params.item === undefined || params.item === "") {
+						return {
+							content: [{ type: "text", text: "Error: item required" }],
+							details: { terminalStatuses, action, error: "item required" },
+						};
+					}
+					const result = await setTodoChecklistItem(todosDir, params.id, params.item, action === "check", ctx);
+					if (typeof result === "object" && "error" in result) {
+						return {
+							content: [{ type: "text", text: result.error }],
+							details: { terminalStatuses, action, error: result.error },
+						};
+					}
 					const updatedTodo = result as TodoRecord;
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(updatedTodo) }],
-						details: { action: "append", todo: updatedTodo },
+						details: { terminalStatuses, action, todo: updatedTodo },
 					};
 				}
 
@@ -1630,7 +5673,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "claim", error: "id required" },
+							details: { terminalStatuses, action: "claim", error: "id required" },
 						};
 					}
 					const result = await claimTodoAssignment(
@@ -1638,17 +5681,19 @@ export default function todosExtension(pi: ExtensionAPI) {
 						params.id,
 						ctx,
 						Boolean(params.force),
+						await getCurrentGitBranch(pi, ctx.cwd),
 					);
 					if (typeof result === "object" && "error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "claim", error: result.error },
+							details: { terminalStatuses, action: "claim", error: result.error },
 						};
 					}
 					const updatedTodo = result as TodoRecord;
+					trackAssignment(todosDir, updatedTodo, ctx.sessionManager.getSessionId(), terminalStatuses);
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(updatedTodo) }],
-						details: { action: "claim", todo: updatedTodo },
+						details: { terminalStatuses, action: "claim", todo: updatedTodo },
 					};
 				}
 
@@ -1656,7 +5701,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "release", error: "id required" },
+							details: { terminalStatuses, action: "release", error: "id required" },
 						};
 					}
 					const result = await releaseTodoAssignment(
@@ -1668,13 +5713,14 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (typeof result === "object" && "error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "release", error: result.error },
+							details: { terminalStatuses, action: "release", error: result.error },
 						};
 					}
 					const updatedTodo = result as TodoRecord;
+					trackAssignment(todosDir, updatedTodo, ctx.sessionManager.getSessionId(), terminalStatuses);
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(updatedTodo) }],
-						details: { action: "release", todo: updatedTodo },
+						details: { terminalStatuses, action: "release", todo: updatedTodo },
 					};
 				}
 
@@ -1682,7 +5728,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if (!params.id) {
 						return {
 							content: [{ type: "text", text: "Error: id required" }],
-							details: { action: "delete", error: "id required" },
+							details: { terminalStatuses, action: "delete", error: "id required" },
 						};
 					}
 
@@ -1690,20 +5736,22 @@ export default function todosExtension(pi: ExtensionAPI) {
 					if ("error" in validated) {
 						return {
 							content: [{ type: "text", text: validated.error }],
-							details: { action: "delete", error: validated.error },
+							details: { terminalStatuses, action: "delete", error: validated.error },
 						};
 					}
 					const result = await deleteTodo(todosDir, validated.id, ctx);
 					if (typeof result === "object" && "error" in result) {
 						return {
 							content: [{ type: "text", text: result.error }],
-							details: { action: "delete", error: result.error },
+							details: { terminalStatuses, action: "delete", error: result.error },
 						};
 					}
 
+					const sessionId = ctx.sessionManager.getSessionId();
+					trackAssignment(todosDir, result as TodoRecord, sessionId, terminalStatuses, true);
 					return {
 						content: [{ type: "text", text: serializeTodoForAgent(result as TodoRecord) }],
-						details: { action: "delete", todo: result as TodoRecord },
+						details: { terminalStatuses, action: "delete", todo: result as TodoRecord },
 					};
 				}
 			}
@@ -1714,7 +5762,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 			const action = typeof args.action === "string" ? args.action : "";
 			const id = typeof args.id === "string" ? args.id : "";
 			const normalizedId = id ? normalizeTodoId(id) : "";
-			const title = typeof args.title === "string" ? args.title : "";
+			const title = typeof args.title === "string" ? args.title : typeof args.goal === "string" ? args.goal : "";
 			let text = theme.fg("toolTitle", theme.bold("todo ")) + theme.fg("muted", action);
 			if (normalizedId) {
 				text += " " + theme.fg("accent", formatTodoId(normalizedId));
@@ -1739,10 +5787,19 @@ export default function todosExtension(pi: ExtensionAPI) {
 				return new Text(theme.fg("error", `Error: ${details.error}`), 0, 0);
 			}
 
-			if (details.action === "list" || details.action === "list-all") {
-				let text = renderTodoList(theme, details.todos, expanded, details.currentSessionId);
+			const terminalStatuses = details.terminalStatuses ?? DEFAULT_TODO_SETTINGS.terminalStatuses;
+			if (
+				details.action === "list" ||
+				details.action === "list-all" ||
+				details.action === "ready" ||
+				details.action === "search-archive"
+			) {
+				let text = renderTodoList(theme, details.todos, expanded, terminalStatuses, details.currentSessionId);
+				if (details.total !== undefined && details.total > details.todos.length) {
+					text += `\n${theme.fg("dim", `Showing ${details.todos.length} of ${details.total} matching todos`)}`;
+				}
 				if (!expanded) {
-					const { closedTodos } = splitTodosByAssignment(details.todos);
+					const { closedTodos } = splitTodosByAssignment(details.todos, terminalStatuses);
 					if (closedTodos.length) {
 						text = appendExpandHint(theme, text);
 					}
@@ -1750,12 +5807,34 @@ export default function todosExtension(pi: ExtensionAPI) {
 				return new Text(text, 0, 0);
 			}
 
+			if (details.action === "plan" && details.todo) {
+				const lines = [
+					theme.fg("success", "✓ ") + theme.fg("muted", "Planned ") + renderTodoHeading(theme, details.todo, terminalStatuses),
+					...details.todos.map((todo) => `  ${renderTodoHeading(theme, todo, terminalStatuses)}`),
+				];
+				return new Text(lines.join("\n"), 0, 0);
+			}
+
 			if (!details.todo) {
 				const text = result.content[0];
 				return new Text(text?.type === "text" ? text.text : "", 0, 0);
 			}
 
-			let text = renderTodoDetail(theme, details.todo, expanded);
+			if (details.action === "history") {
+				const heading = renderTodoHeading(theme, details.todo, terminalStatuses);
+				if (!details.history.length) {
+					return new Text(`${heading}\n${theme.fg("dim", "No history recorded")}`, 0, 0);
+				}
+				const entries = expanded ? details.history : details.history.slice(-5);
+				const lines = [heading, ...entries.map((entry) => theme.fg("muted", `  ${formatTodoHistoryEntry(entry)}`))];
+				let text = lines.join("\n");
+				if (!expanded && details.history.length > entries.length) {
+					text = appendExpandHint(theme, text);
+				}
+				return new Text(text, 0, 0);
+			}
+
+			let text = renderTodoDetail(theme, details.todo, expanded, terminalStatuses);
 			const actionLabel =
 				details.action === "create"
 					? "Created"
@@ -1769,7 +5848,11 @@ export default function todosExtension(pi: ExtensionAPI) {
 									? "Claimed"
 									: details.action === "release"
 										? "Released"
-										: null;
+										: details.action === "check"
+											? "Checked item in"
+											: details.action === "uncheck"
+												? "Unchecked item in"
+												: null;
 			if (actionLabel) {
 				const lines = text.split("\n");
 				lines[0] = theme.fg("success", "✓ ") + theme.fg("muted", `${actionLabel} `) + lines[0];
@@ -1785,37 +5868,331 @@ export default function todosExtension(pi: ExtensionAPI) {
 	pi.registerCommand("todos", {
 		description: "List todos from .pi/todos",
 		getArgumentCompletions: (argumentPrefix: string) => {
-			const todos = listTodosSync(getTodosDir(process.cwd()));
-			if (!todos.length) return null;
-			const matches = filterTodos(todos, argumentPrefix);
-			if (!matches.length) return null;
-			return matches.map((todo) => {
-				const title = todo.title || "(untitled)";
-				const tags = todo.tags.length ? ` • ${todo.tags.join(", ")}` : "";
-				return {
-					value: title,
-					label: `${formatTodoId(todo.id)} ${title}`,
-					description: `${todo.status || "open"}${tags}`,
-				};
-			});
+			const prefix = argumentPrefix.trim().toLowerCase();
+			const subcommands = prefix
+				? TODO_SUBCOMMANDS.filter((subcommand) => subcommand.name.startsWith(prefix)).map((subcommand) => ({
+						value: subcommand.name,
+						label: subcommand.name,
+						description: subcommand.description,
+					}))
+				: [];
+			const todosDir = getTodosDir(process.cwd());
+			const todos = listTodosSync(todosDir);
+			const matches = todos.length
+				? filterTodos(todos, argumentPrefix, readTodoSettingsSync(todosDir).terminalStatuses)
+				: [];
+			const completions = [
+				...subcommands,
+				...matches.map((todo) => {
+					const title = todo.title || "(untitled)";
+					const tags = todo.tags.length ? ` • ${todo.tags.join(", ")}` : "";
+					return {
+						value: title,
+						label: `${formatTodoId(todo.id)} ${title}`,
+						description: `${todo.status || "open"}${tags}`,
+					};
+				}),
+			];
+			return completions.length ? completions : null;
 		},
 		handler: async (args, ctx) => {
 			const todosDir = getTodosDir(ctx.cwd);
-			const todos = await listTodos(todosDir);
-			const currentSessionId = ctx.sessionManager.getSessionId();
 			const searchTerm = (args ?? "").trim();
+			const [subcommand] = searchTerm.split(/\s+/);
+
+			const report = (text: string, level: "info" | "error") => {
+				if (ctx.hasUI) {
+					ctx.ui.notify(text, level);
+				} else {
+					console.log(text);
+				}
+			};
+
+			if (subcommand === "sync") {
+				if (ctx.hasUI) ctx.ui.notify("Syncing todos with GitHub issues…", "info");
+				const summary = await syncTodosWithGitHub(pi, todosDir, ctx);
+				const text = "error" in summary ? summary.error : formatTodoSyncSummary(summary);
+				const failed = "error" in summary || summary.errors.length > 0;
+				report(text, failed ? "error" : "info");
+				return;
+			}
+
+			if (subcommand === "export") {
+				const options = parseTodoExportArgs(searchTerm.split(/\s+/).slice(1));
+				if ("error" in options) {
+					report(options.error, "error");
+					return;
+				}
+				const records = await listTodoRecords(todosDir);
+				const { terminalStatuses } = await readTodoSettings(todosDir);
+				const content = serializeTodoExport(records, options.format, options.groupBy, terminalStatuses);
+				if (!options.output && !ctx.hasUI) {
+					process.stdout.write(content);
+					return;
+				}
+				const fileName =
+					options.output ??
+					`todos-${new Date().toISOString().slice(0, 10)}.${TODO_EXPORT_EXTENSIONS[options.format]}`;
+				const outputPath = path.resolve(ctx.cwd, fileName);
+				try {
+					await fs.writeFile(outputPath, content, "utf8");
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					report(`Failed to write ${outputPath}: ${message}`, "error");
+					return;
+				}
+				report(`Exported ${records.length} todos to ${outputPath}`, "info");
+				return;
+			}
+
+			if (subcommand === "new") {
+				if (!ctx.hasUI) {
+					report("/todos new requires interactive mode", "error");
+					return;
+				}
+				const templates = await listTodoTemplates(todosDir);
+				const requested = searchTerm.slice(subcommand.length).trim();
+				let template: TodoTemplate | undefined;
+				if (requested) {
+					const resolved = await resolveTodoTemplate(todosDir, requested);
+					if ("error" in resolved) {
+						report(resolved.error, "error");
+						return;
+					}
+					template = resolved;
+				} else {
+					const labels = [
+						"(blank)",
+						...templates.map((entry) =>
+							entry.description ? `${entry.name} — ${entry.description}` : entry.name,
+						),
+					];
+					const choice = await ctx.ui.select("New todo from template", labels);
+					if (!choice) return;
+					template = templates[labels.indexOf(choice) - 1];
+				}
+				const title = (await ctx.ui.input("Todo title", "short summary"))?.trim();
+				if (!title) return;
+				const fields: Record<string, string> = {};
+				for (const name of template ? getTemplatePlaceholders(template) : []) {
+					const value = await ctx.ui.input(`Template field: ${name}`, "leave empty to skip");
+					if (value === undefined) return;
+					fields[name] = value.trim();
+				}
+				const input = template ? applyTodoTemplate(template, { title }, fields) : { title };
+				const result = await createTodo(todosDir, input, ctx);
+				if ("error" in result) {
+					report(result.error, "error");
+					return;
+				}
+				report(`Created todo ${formatTodoId(result.id)} "${result.title}"`, "info");
+				return;
+			}
+
+			if (subcommand === "doctor") {
+				const fix = searchTerm.split(/\s+/).includes("--fix");
+				const sources = getTodoSources(ctx.cwd, "all");
+				let knownSessions: Set<string> | null = null;
+				try {
+					knownSessions = new Set((await SessionManager.listAll()).map((session) => session.id));
+					knownSessions.add(ctx.sessionManager.getSessionId());
+				} catch {
+					// leave assignments alone if the session list is unavailable
+				}
+				const found: { source: TodoSource; settings: TodoSettings; issue: TodoDoctorIssue }[] = [];
+				for (const source of sources) {
+					const settings = await readTodoSettings(source.dir);
+					for (const issue of await diagnoseTodos(source.dir, settings, knownSessions)) {
+						found.push({ source, settings, issue });
+					}
+				}
+				if (!found.length) {
+					report(`No problems found in ${sources.length === 1 ? "todos" : `${sources.length} todo dirs`}`, "info");
+					return;
+				}
+
+				const describe = ({ source, issue }: (typeof found)[number]) =>
+					`${sources.length > 1 ? `${source.label} ` : ""}${formatTodoId(issue.id)} ${issue.kind}: ${issue.message}`;
+				const repairable = found.filter(({ issue }) => issue.repair);
+				const lines = found.map((entry) => `${describe(entry)}${entry.issue.repair ? "" : " (fix manually)"}`);
+				report(`Found ${found.length} problems:\n${lines.join("\n")}`, repairable.length ? "info" : "error");
+				if (!repairable.length) return;
+
+				const apply =
+					fix ||
+					(ctx.hasUI &&
+						(await ctx.ui.confirm(
+							"Repair todos",
+							repairable.map((entry) => `${describe(entry)} → ${entry.issue.repair}`).join("\n"),
+						)));
+				if (!apply) {
+					if (!ctx.hasUI) report("Run /todos doctor --fix to apply the repairs", "info");
+					return;
+				}
+				const errors: string[] = [];
+				for (const { source, settings, issue } of repairable) {
+					const result = await repairTodoIssue(source.dir, issue, settings, ctx);
+					if (result) errors.push(result.error);
+				}
+				report(
+					errors.length
+						? `Repaired ${repairable.length - errors.length}/${repairable.length} problems: ${errors.join("; ")}`
+						: `Repaired ${repairable.length} problems`,
+					errors.length ? "error" : "info",
+				);
+				return;
+			}
+
+			if (subcommand === "locks") {
+				if (!ctx.hasUI) {
+					const locks = await listTodoLocks(todosDir);
+					const lines = locks.map(
+						(lock) =>
+							`${formatTodoId(lock.id)} ${lock.title ?? "(missing todo)"} — ${formatTodoLockStatus(lock)}`,
+					);
+					console.log(lines.length ? lines.join("\n") : "No todo locks held.");
+					return;
+				}
+				while (true) {
+					const locks = await listTodoLocks(todosDir);
+					if (!locks.length) {
+						ctx.ui.notify("No todo locks held", "info");
+						return;
+					}
+					const selected = await ctx.ui.custom<TodoLockStatus | null>((_tui, theme, _kb, done) =>
+						new TodoLockListComponent(theme, locks, done, () => done(null)),
+					);
+					if (!selected) return;
+					const warning = selected.alive
+						? " Its owner is still running and may be mid-write."
+						: "";
+					const ok = await ctx.ui.confirm(
+						"Force release lock",
+						`Release the lock on ${formatTodoId(selected.id)}?${warning}`,
+					);
+					if (!ok) continue;
+					const result = await forceReleaseTodoLock(todosDir, selected.id);
+					if (result) {
+						ctx.ui.notify(result.error, "error");
+					} else {
+						ctx.ui.notify(`Released lock on ${formatTodoId(selected.id)}`, "info");
+					}
+				}
+			}
+
+			if (subcommand === "import") {
+				let source = searchTerm.slice(subcommand.length).trim();
+				if (!source && ctx.hasUI) {
+					source = (await ctx.ui.input("Import todos from JSON file", "path/to/todos.json"))?.trim() ?? "";
+				}
+				if (!source) {
+					report("Usage: /todos import <file.json>", "error");
+					return;
+				}
+				const sourcePath = path.resolve(ctx.cwd, source);
+				let text: string;
+				try {
+					text = await fs.readFile(sourcePath, "utf8");
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					report(`Failed to read ${sourcePath}: ${message}`, "error");
+					return;
+				}
+				const parsed = parseTodoImport(text);
+				if ("error" in parsed) {
+					report(parsed.error, "error");
+					return;
+				}
+				const { imported, errors } = await importTodos(todosDir, parsed, ctx);
+				const renamed = imported.filter((entry) => entry.from !== entry.to).length;
+				const lines = [
+					`Imported ${imported.length} todos${renamed ? ` (${renamed} assigned new ids)` : ""}`,
+					...errors.map((error) => `  error: ${error}`),
+				];
+				report(lines.join("\n"), errors.length ? "error" : "info");
+				return;
+			}
+
+			if (subcommand === "archive") {
+				const archiveDir = getTodoArchiveDir(todosDir);
+				const archived = await listTodoRecords(archiveDir);
+				const { terminalStatuses } = await readTodoSettings(todosDir);
+				if (!ctx.hasUI) {
+					console.log(formatTodoList(archived, terminalStatuses));
+					return;
+				}
+				if (!archived.length) {
+					ctx.ui.notify("No archived todos", "info");
+					return;
+				}
+				const archiveSearch = searchTerm.slice(subcommand.length).trim();
+				await ctx.ui.custom<void>(
+					(tui, theme, _kb, done) =>
+						new TodoSelectorComponent(
+							tui,
+							theme,
+							archived,
+							terminalStatuses,
+							(todo) => {
+								void (async () => {
+									const record = archived.find((entry) => entry.id === todo.id);
+									if (!record) return;
+									const history = await readTodoHistory(archiveDir, record.id);
+									await ctx.ui.custom<TodoOverlayAction>(
+										(overlayTui, overlayTheme, _overlayKb, overlayDone) =>
+											new TodoDetailOverlayComponent(
+												overlayTui,
+												overlayTheme,
+												record,
+												terminalStatuses,
+												overlayDone,
+												{ history, readOnly: true },
+											),
+										{
+											overlay: true,
+											overlayOptions: { width: "80%", maxHeight: "80%", anchor: "center" },
+										},
+									);
+								})();
+							},
+							() => done(),
+							archiveSearch || undefined,
+							ctx.sessionManager.getSessionId(),
+						),
+				);
+				return;
+			}
+
+			for (const { todo, commit } of await closeMergedTodosInSources(ctx)) {
+				report(`Closed todo ${formatTodoId(todo.id)}: ${commit.shortHash} landed on the default branch`, "info");
+			}
+
+			// The manager shows every package's todos; actions go to the dir a todo was listed from.
+			const sources = getTodoSources(ctx.cwd, "all");
+			const todos = await listTodoRecordsFromSources(sources);
+			const currentSessionId = ctx.sessionManager.getSessionId();
+			const settings = await readTodoSettings(todosDir);
+			const terminalStatuses = readTerminalStatuses(sources);
+			const openBoard = subcommand === "board";
 
 			if (!ctx.hasUI) {
-				const text = formatTodoList(todos);
+				const text = formatTodoList(todos, terminalStatuses);
 				console.log(text);
 				return;
 			}
 
+			assignmentWatch.alerts = [];
+			updateTodoStatusBar(ctx);
+
 			let nextPrompt: string | null = null;
 			let rootTui: TUI | null = null;
+			let stopWatching: () => void = () => {};
 			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
 				rootTui = tui;
+				let openOverlay: TodoDetailOverlayComponent | null = null;
 				let selector: TodoSelectorComponent | null = null;
+				let board: TodoBoardComponent | null = null;
+				let showBoard = openBoard;
 				let actionMenu: TodoActionMenuComponent | null = null;
 				let deleteConfirm: TodoDeleteConfirmComponent | null = null;
 				let activeComponent:
@@ -1848,8 +6225,35 @@ export default function todosExtension(pi: ExtensionAPI) {
 					tui.requestRender();
 				};
 
-				const copyTodoPathToClipboard = (todoId: string) => {
-					const filePath = getTodoPath(todosDir, todoId);
+				const showMainView = () => {
+					setActiveComponent(showBoard ? board : selector);
+				};
+
+				const refreshTodos = async (focusId?: string) => {
+					const updatedTodos = await listTodoRecordsFromSources(sources);
+					selector?.setTodos(updatedTodos);
+					board?.setTodos(updatedTodos, focusId);
+					const overlay = openOverlay;
+					if (!overlay) return;
+					const record = updatedTodos.find((todo) => todo.id === overlay.todoId);
+					if (!record) return;
+					overlay.setContent(record, {
+						dependencies: getTodoDependencyView(record, updatedTodos),
+						history: await readTodoHistory(getTodoSourceDir(sources, record), record.id),
+					});
+				};
+
+				const stops = sources.map((source) =>
+					watchTodosDir(source.dir, () => {
+						void refreshTodos();
+					}),
+				);
+				stopWatching = () => {
+					for (const stop of stops) stop();
+				};
+
+				const copyTodoPathToClipboard = (todo: TodoFrontMatter) => {
+					const filePath = getTodoPath(getTodoSourceDir(sources, todo), todo.id);
 					const absolutePath = path.resolve(filePath);
 					try {
 						copyToClipboard(absolutePath);
@@ -1874,24 +6278,38 @@ export default function todosExtension(pi: ExtensionAPI) {
 				};
 
 				const resolveTodoRecord = async (todo: TodoFrontMatter): Promise<TodoRecord | null> => {
-					const filePath = getTodoPath(todosDir, todo.id);
+					const filePath = getTodoPath(getTodoSourceDir(sources, todo), todo.id);
 					const record = await ensureTodoExists(filePath, todo.id);
 					if (!record) {
 						ctx.ui.notify(`Todo ${formatTodoId(todo.id)} not found`, "error");
 						return null;
 					}
-					return record;
+					return todo.source ? { ...record, source: todo.source } : record;
 				};
 
 				const openTodoOverlay = async (record: TodoRecord): Promise<TodoOverlayAction> => {
+					const recordDir = getTodoSourceDir(sources, record);
+					const dependencies = getTodoDependencyView(record, await listTodos(recordDir));
+					const history = await readTodoHistory(recordDir, record.id);
+					const commits = await findTodoCommits(pi, ctx.cwd, record.id);
 					const action = await ctx.ui.custom<TodoOverlayAction>(
-						(overlayTui, overlayTheme, _overlayKb, overlayDone) =>
-							new TodoDetailOverlayComponent(overlayTui, overlayTheme, record, overlayDone),
+						(overlayTui, overlayTheme, _overlayKb, overlayDone) => {
+							openOverlay = new TodoDetailOverlayComponent(
+								overlayTui,
+								overlayTheme,
+								record,
+								terminalStatuses,
+								overlayDone,
+								{ dependencies, history, commits },
+							);
+							return openOverlay;
+						},
 						{
 							overlay: true,
 							overlayOptions: { width: "80%", maxHeight: "80%", anchor: "center" },
 						},
 					);
+					openOverlay = null;
 
 					return action ?? "back";
 				};
@@ -1900,6 +6318,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 					record: TodoRecord,
 					action: TodoMenuAction,
 				): Promise<"stay" | "exit"> => {
+					const todosDir = getTodoSourceDir(sources, record);
 					if (action === "refine") {
 						const title = record.title || "(untitled)";
 						nextPrompt = buildRefinePrompt(record.id, title);
@@ -1916,13 +6335,55 @@ export default function todosExtension(pi: ExtensionAPI) {
 						return "stay";
 					}
 					if (action === "copyPath") {
-						copyTodoPathToClipboard(record.id);
+						copyTodoPathToClipboard(record);
 						return "stay";
 					}
 					if (action === "copyText") {
 						copyTodoTextToClipboard(record);
 						return "stay";
 					}
+					if (action === "priority" || action === "due" || action === "estimate") {
+						return "stay";
+					}
+
+					if (action === "closeOnMerge") {
+						if (record.close_on_merge) {
+							const result = await setTodoCloseOnMerge(todosDir, record.id, ctx, (todo) => {
+								todo.close_on_merge = undefined;
+							});
+							if ("error" in result) {
+								ctx.ui.notify(result.error, "error");
+								return "stay";
+							}
+							await refreshTodos();
+							ctx.ui.notify(`Todo ${formatTodoId(record.id)} will no longer close on merge`, "info");
+							return "stay";
+						}
+						const defaultBranch = await getDefaultGitBranch(pi, ctx.cwd);
+						const merged = await findMergedTodoCommit(pi, ctx.cwd, record.id, defaultBranch);
+						const result = await setTodoCloseOnMerge(
+							todosDir,
+							record.id,
+							ctx,
+							merged
+								? closeMergedTodo
+								: (todo) => {
+										todo.close_on_merge = true;
+									},
+						);
+						if ("error" in result) {
+							ctx.ui.notify(result.error, "error");
+							return "stay";
+						}
+						await refreshTodos();
+						ctx.ui.notify(
+							merged
+								? `Closed todo ${formatTodoId(record.id)}: ${merged.shortHash} is on ${defaultBranch}`
+								: `Todo ${formatTodoId(record.id)} will close once a commit mentioning it lands on ${defaultBranch}`,
+							"info",
+						);
+						return "stay";
+					}
 
 					if (action === "release") {
 						const result = await releaseTodoAssignment(todosDir, record.id, ctx, true);
@@ -1930,8 +6391,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(result.error, "error");
 							return "stay";
 						}
-						const updatedTodos = await listTodos(todosDir);
-						selector?.setTodos(updatedTodos);
+						await refreshTodos();
 						ctx.ui.notify(`Released todo ${formatTodoId(record.id)}`, "info");
 						return "stay";
 					}
@@ -1942,21 +6402,19 @@ export default function todosExtension(pi: ExtensionAPI) {
 							ctx.ui.notify(result.error, "error");
 							return "stay";
 						}
-						const updatedTodos = await listTodos(todosDir);
-						selector?.setTodos(updatedTodos);
+						await refreshTodos();
 						ctx.ui.notify(`Deleted todo ${formatTodoId(record.id)}`, "info");
 						return "stay";
 					}
 
-					const nextStatus = action === "close" ? "closed" : "open";
-					const result = await updateTodoStatus(todosDir, record.id, nextStatus, ctx);
+					const status = getStatusForAction(await readTodoSettings(todosDir), action);
+					const result = await updateTodoStatus(todosDir, record.id, status, ctx);
 					if ("error" in result) {
 						ctx.ui.notify(result.error, "error");
 						return "stay";
 					}
 
-					const updatedTodos = await listTodos(todosDir);
-					selector?.setTodos(updatedTodos);
+					await refreshTodos();
 					ctx.ui.notify(
 						`${action === "close" ? "Closed" : "Reopened"} todo ${formatTodoId(record.id)}`,
 						"info",
@@ -1965,6 +6423,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 				};
 
 				const handleActionSelection = async (record: TodoRecord, action: TodoMenuAction) => {
+					const todosDir = getTodoSourceDir(sources, record);
 					if (action === "view") {
 						const overlayAction = await openTodoOverlay(record);
 						if (overlayAction === "work") {
@@ -1977,6 +6436,43 @@ export default function todosExtension(pi: ExtensionAPI) {
 						return;
 					}
 
+					if (action === "priority" || action === "due" || action === "estimate") {
+						const savePlanningField = async (value: string | null) => {
+							if (value === null) {
+								setActiveComponent(actionMenu);
+								return;
+							}
+							const result = await updateTodoPlanning(todosDir, record.id, { [action]: value }, ctx);
+							if ("error" in result) {
+								ctx.ui.notify(result.error, "error");
+								setActiveComponent(actionMenu);
+								return;
+							}
+							await refreshTodos();
+							ctx.ui.notify(`Updated ${action} of todo ${formatTodoId(record.id)}`, "info");
+							showMainView();
+						};
+						if (action === "priority") {
+							setActiveComponent(
+								new TodoPriorityMenuComponent(theme, record, (value) => {
+									void savePlanningField(value);
+								}),
+							);
+							return;
+						}
+						const title =
+							action === "due"
+								? `Due date for ${formatTodoId(record.id)}`
+								: `Estimate for ${formatTodoId(record.id)}`;
+						const hint = action === "due" ? "YYYY-MM-DD or ISO timestamp" : "e.g. 30m, 2h, 1d4h";
+						setActiveComponent(
+							new TodoFieldInputComponent(theme, title, hint, record[action] ?? "", (value) => {
+								void savePlanningField(value);
+							}),
+						);
+						return;
+					}
+
 					if (action === "delete") {
 						const message = `Delete todo ${formatTodoId(record.id)}? This cannot be undone.`;
 						deleteConfirm = new TodoDeleteConfirmComponent(theme, message, (confirmed) => {
@@ -1986,7 +6482,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 							}
 							void (async () => {
 								await applyTodoAction(record, "delete");
-								setActiveComponent(selector);
+								showMainView();
 							})();
 						});
 						setActiveComponent(deleteConfirm);
@@ -1995,7 +6491,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 
 					const result = await applyTodoAction(record, action);
 					if (result === "stay") {
-						setActiveComponent(selector);
+						showMainView();
 					}
 				};
 
@@ -2005,29 +6501,130 @@ export default function todosExtension(pi: ExtensionAPI) {
 					actionMenu = new TodoActionMenuComponent(
 						theme,
 						record,
+						terminalStatuses,
 						(action) => {
 							void handleActionSelection(record, action);
 						},
 						() => {
-							setActiveComponent(selector);
+							showMainView();
 						},
 					);
 					setActiveComponent(actionMenu);
 				};
 
+				const runBulkAction = async (
+					todos: TodoFrontMatter[],
+					verb: string,
+					apply: (todo: TodoFrontMatter) => Promise<TodoRecord | { error: string }>,
+				) => {
+					const errors: string[] = [];
+					let succeeded = 0;
+					for (const todo of todos) {
+						const result = await apply(todo);
+						if ("error" in result) {
+							errors.push(result.error);
+						} else {
+							succeeded += 1;
+						}
+					}
+					selector?.clearMarks();
+					await refreshTodos();
+					if (errors.length) {
+						ctx.ui.notify(
+							`${verb} ${succeeded}/${todos.length} todos; ${errors.length} failed: ${errors.join("; ")}`,
+							"error",
+						);
+					} else {
+						ctx.ui.notify(`${verb} ${succeeded} todos`, "info");
+					}
+					showMainView();
+				};
+
+				const handleBulkAction = async (todos: TodoFrontMatter[], action: TodoBulkAction) => {
+					if (action === "work") {
+						nextPrompt = buildBulkWorkPrompt(todos);
+						done();
+						return;
+					}
+					if (action === "close" || action === "reopen") {
+						await runBulkAction(todos, action === "close" ? "Closed" : "Reopened", async (todo) => {
+							// Each package may define its own statuses.
+							const todoDir = getTodoSourceDir(sources, todo);
+							const status = getStatusForAction(await readTodoSettings(todoDir), action);
+							return updateTodoStatus(todoDir, todo.id, status, ctx);
+						});
+						return;
+					}
+					if (action === "release") {
+						const assigned = todos.filter((todo) => todo.assigned_to_session);
+						await runBulkAction(assigned, "Released", (todo) =>
+							releaseTodoAssignment(getTodoSourceDir(sources, todo), todo.id, ctx, true),
+						);
+						return;
+					}
+					if (action === "retag") {
+						setActiveComponent(
+							new TodoFieldInputComponent(
+								theme,
+								`Tags for ${todos.length} todos`,
+								"a, b replaces • +a -b adds/removes",
+								"",
+								(value) => {
+									if (value === null) {
+										showBulkMenu(todos);
+										return;
+									}
+									void runBulkAction(todos, "Retagged", (todo) =>
+										updateTodoTags(getTodoSourceDir(sources, todo), todo.id, value, ctx),
+									);
+								},
+							),
+						);
+						return;
+					}
+					const message = `Delete ${todos.length} todos? This cannot be undone.`;
+					deleteConfirm = new TodoDeleteConfirmComponent(theme, message, (confirmed) => {
+						if (!confirmed) {
+							showBulkMenu(todos);
+							return;
+						}
+						void runBulkAction(todos, "Deleted", (todo) => deleteTodo(getTodoSourceDir(sources, todo), todo.id, ctx));
+					});
+					setActiveComponent(deleteConfirm);
+				};
+
+				const showBulkMenu = (todos: TodoFrontMatter[]) => {
+					setActiveComponent(
+						new TodoBulkActionMenuComponent(
+							theme,
+							todos,
+							(action) => {
+								void handleBulkAction(todos, action);
+							},
+							() => {
+								showMainView();
+							},
+						),
+					);
+				};
+
 				const handleSelect = async (todo: TodoFrontMatter) => {
-					await showActionMenu(todo);
+					// Selector entries may be stale records, so always reread before acting.
+					const record = await resolveTodoRecord(todo);
+					if (!record) return;
+					await showActionMenu(record);
 				};
 
 				selector = new TodoSelectorComponent(
 					tui,
 					theme,
 					todos,
+					terminalStatuses,
 					(todo) => {
 						void handleSelect(todo);
 					},
 					() => done(),
-					searchTerm || undefined,
+					openBoard ? undefined : searchTerm || undefined,
 					currentSessionId,
 					(todo, action) => {
 						const title = todo.title || "(untitled)";
@@ -2037,9 +6634,43 @@ export default function todosExtension(pi: ExtensionAPI) {
 								: `work on todo ${formatTodoId(todo.id)} "${title}"`;
 						done();
 					},
+					() => {
+						showBoard = true;
+						showMainView();
+					},
+					(todos) => {
+						showBulkMenu(todos);
+					},
+				);
+
+				board = new TodoBoardComponent(
+					tui,
+					theme,
+					todos,
+					settings.boardColumns,
+					terminalStatuses,
+					(todo) => {
+						void handleSelect(todo);
+					},
+					(todo, status) => {
+						void (async () => {
+							const result = await updateTodoStatus(getTodoSourceDir(sources, todo), todo.id, status, ctx);
+							if ("error" in result) {
+								ctx.ui.notify(result.error, "error");
+								return;
+							}
+							await refreshTodos(todo.id);
+						})();
+					},
+					() => {
+						showBoard = false;
+						showMainView();
+					},
+					() => done(),
+					currentSessionId,
 				);
 
-				setActiveComponent(selector);
+				showMainView();
 
 				const rootComponent = {
 					get focused() {
@@ -2064,6 +6695,7 @@ export default function todosExtension(pi: ExtensionAPI) {
 
 				return rootComponent;
 			});
+			stopWatching();
 
 			if (nextPrompt) {
 				ctx.ui.setEditorText(nextPrompt);
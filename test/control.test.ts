@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { Duplex } from "node:stream";
+import { test } from "node:test";
+import { globToRegExp, matchesEventFilter, parseListenSpec, readWebSocketFrames } from "../pi-extensions/control.ts";
+
+test("globToRegExp matches within and across alias segments", () => {
+	assert.ok(globToRegExp("workers/*").test("workers/1"));
+	assert.ok(!globToRegExp("workers/*").test("workers/a/b"));
+	assert.ok(globToRegExp("workers/**").test("workers/a/b"));
+	assert.ok(globToRegExp("worker?").test("worker1"));
+	assert.ok(!globToRegExp("worker?").test("worker/"));
+	assert.ok(!globToRegExp("a.b").test("axb"));
+});
+
+test("parseListenSpec accepts a transport with an optional port", () => {
+	assert.deepEqual(parseListenSpec("tcp"), { transport: "tcp", port: 0 });
+	assert.deepEqual(parseListenSpec(" ws:7777 "), { transport: "ws", port: 7777 });
+	assert.equal(parseListenSpec("http:80"), null);
+	assert.equal(parseListenSpec("tcp:"), null);
+	assert.equal(parseListenSpec("tcp:70000"), null);
+});
+
+test("matchesEventFilter applies tool names and errorsOnly", () => {
+	assert.ok(matchesEventFilter(undefined, { toolName: "bash" }));
+	assert.ok(matchesEventFilter({ toolNames: ["bash"] }, { toolName: "bash" }));
+	assert.ok(!matchesEventFilter({ toolNames: ["bash"] }, { toolName: "read" }));
+	// Events without a tool name are not filtered by tool.
+	assert.ok(matchesEventFilter({ toolNames: ["bash"] }, {}));
+	assert.ok(!matchesEventFilter({ errorsOnly: true }, { isError: false }));
+	assert.ok(matchesEventFilter({ errorsOnly: true }, { isError: true }));
+});
+
+/** Builds a masked client frame. */
+function clientFrame(opcode: number, payload: Buffer, fin = true): Buffer {
+	const mask = Buffer.from([1, 2, 3, 4]);
+	const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+	let header: Buffer;
+	if (payload.length < 126) {
+		header = Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length]);
+	} else {
+		header = Buffer.alloc(4);
+		header[0] = (fin ? 0x80 : 0) | opcode;
+		header[1] = 0x80 | 126;
+		header.writeUInt16BE(payload.length, 2);
+	}
+	return Buffer.concat([header, mask, masked]);
+}
+
+function decode(chunks: Buffer[], maxLength = 1024) {
+	const written: Buffer[] = [];
+	const texts: string[] = [];
+	// Client data is emitted by hand; whatever the reader writes back is collected.
+	const socket = new Duplex({
+		read() {},
+		write(chunk: Buffer, _encoding, callback) {
+			written.push(chunk);
+			callback();
+		},
+	});
+	readWebSocketFrames(socket, Buffer.alloc(0), () => maxLength, (text) => texts.push(text));
+	for (const chunk of chunks) socket.emit("data", chunk);
+	return { texts, written };
+}
+
+test("readWebSocketFrames decodes split and fragmented text messages", () => {
+	const frame = clientFrame(0x1, Buffer.from('{"type":"get_message"}'));
+	const { texts } = decode([
+		frame.subarray(0, 3),
+		frame.subarray(3),
+		clientFrame(0x1, Buffer.from("he"), false),
+		clientFrame(0x0, Buffer.from("llo\n")),
+	]);
+	assert.deepEqual(texts, ['{"type":"get_message"}\n', "hello\n"]);
+});
+
+test("readWebSocketFrames answers pings and skips binary messages", () => {
+	const { texts, written } = decode([clientFrame(0x9, Buffer.from("hi")), clientFrame(0x2, Buffer.from("bin"))]);
+	assert.deepEqual(texts, []);
+	assert.deepEqual(written, [Buffer.from([0x8a, 2, ...Buffer.from("hi")])]);
+});
+
+test("readWebSocketFrames closes with 1009 once a header exceeds the limit", () => {
+	// Only the header arrives; the payload is never buffered.
+	const header = clientFrame(0x1, Buffer.alloc(200)).subarray(0, 8);
+	const { texts, written } = decode([header], 100);
+	assert.deepEqual(texts, []);
+	assert.deepEqual(written, [Buffer.from([0x88, 2, 0x03, 0xf1])]);
+});
+
+test("readWebSocketFrames counts continuation frames towards the limit", () => {
+	const { texts, written } = decode(
+		[clientFrame(0x1, Buffer.alloc(60), false), clientFrame(0x0, Buffer.alloc(60))],
+		100,
+	);
+	assert.deepEqual(texts, []);
+	assert.deepEqual(written, [Buffer.from([0x88, 2, 0x03, 0xf1])]);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { importTodos, orderTodoPlanItems, parseTodoImport } from "../pi-extensions/todos.ts";
+
+test("orderTodoPlanItems puts dependencies first", () => {
+	const result = orderTodoPlanItems([
+		{ title: "deploy", depends_on: [2, 3] },
+		{ title: "build", depends_on: [3] },
+		{ title: "test" },
+	]);
+	assert.deepEqual(result, { order: [2, 1, 0] });
+});
+
+test("orderTodoPlanItems leaves existing todo ids to the caller", () => {
+	assert.deepEqual(orderTodoPlanItems([{ title: "a", depends_on: ["deadbeef"] }, { title: "b" }]), {
+		order: [0, 1],
+	});
+});
+
+test("orderTodoPlanItems rejects cycles and bad references", () => {
+	assert.deepEqual(orderTodoPlanItems([{ title: "a", depends_on: [2] }, { title: "b", depends_on: [1] }]), {
+		error: "Plan items 1, 2 depend on each other",
+	});
+	assert.deepEqual(orderTodoPlanItems([{ title: "a", depends_on: [1] }]), {
+		error: "Plan item 1 depends on invalid item 1",
+	});
+	assert.deepEqual(orderTodoPlanItems([{ title: "a", depends_on: [3] }]), {
+		error: "Plan item 1 depends on invalid item 3",
+	});
+});
+
+test("importTodos renames colliding ids and remaps dependencies", async () => {
+	const todosDir = mkdtempSync(path.join(os.tmpdir(), "todos-test-"));
+	try {
+		writeFileSync(path.join(todosDir, "bbbbbbbb.md"), "{}\n");
+		const todos = parseTodoImport(
+			JSON.stringify({
+				todos: [
+					{ id: "TODO-aaaaaaaa", title: "ship", depends_on: ["bbbbbbbb", "cccccccc"] },
+					{
+						id: "bbbbbbbb",
+						title: "build",
+						blocks: ["aaaaaaaa"],
+						assigned_to_session: "elsewhere",
+						claimed_at: "2026-01-01T00:00:00.000Z",
+					},
+				],
+			}),
+		);
+		assert.ok(Array.isArray(todos));
+		const ctx = {
+			hasUI: false,
+			cwd: todosDir,
+			sessionManager: { getSessionId: () => "test-session", getSessionFile: () => undefined },
+		} as unknown as ExtensionContext;
+		const { imported, errors } = await importTodos(todosDir, todos, ctx);
+
+		assert.deepEqual(errors, []);
+		const [ship, build] = imported;
+		assert.deepEqual(ship, { from: "aaaaaaaa", to: "aaaaaaaa" });
+		assert.equal(build.from, "bbbbbbbb");
+		assert.notEqual(build.to, "bbbbbbbb");
+		assert.ok(existsSync(path.join(todosDir, `${build.to}.md`)));
+		// The edge to the renamed todo follows it; the one leaving the file is dropped.
+		assert.deepEqual(todos[0].depends_on, [build.to]);
+		assert.deepEqual(todos[1].blocks, ["aaaaaaaa"]);
+		assert.equal(todos[1].assigned_to_session, undefined);
+		assert.equal(todos[1].claimed_at, undefined);
+	} finally {
+		rmSync(todosDir, { recursive: true, force: true });
+	}
+});